@@ -0,0 +1,128 @@
+import { inject } from '@angular/core';
+import { Order } from '../interfaces/data-item.interface';
+import { BulkActionDefinition } from '../interfaces/bulk-action.interface';
+import { EntityCollection } from '../interfaces/entity-collection.interface';
+import { DataService } from '../services/data.service';
+import { ORDER_STATUS_MACHINE } from '../models/status-machines';
+import { refundAmount, refundParams, refundParamsError } from '../models/action-params.model';
+import { ActionParams, RefundParams } from '../interfaces/action-params.interface';
+
+// The form keeps the amount and the percentage in separate fields named after the mode
+function refundFromForm(params: ActionParams = {}): RefundParams {
+  const mode = String(params['mode'] ?? 'full');
+  return refundParams(mode in params ? { mode, value: params[mode] } : { mode });
+}
+
+// Full refunds are sent without a value
+function refundBody({ mode, value }: RefundParams): ActionParams {
+  return value === undefined ? { mode } : { mode, value };
+}
+
+export function orderActions(orders: EntityCollection<Order>): BulkActionDefinition<Order>[] {
+  const dataService = inject(DataService);
+  return [
+    {
+      type: 'processOrders',
+      label: 'Process Orders',
+      icon: 'settings',
+      width: '150px',
+      handler: scope => orders.runBulk('process', scope, ORDER_STATUS_MACHINE, 'processOrders'),
+      undo: tokens => dataService.undoBulk(tokens),
+      messages: {
+        progress: count => `Processing ${count} orders...`,
+        success: 'Orders processed successfully.',
+        pastTense: 'processed',
+        error: 'Failed to process orders.'
+      },
+      permission: 'orders:process',
+      statusMachine: ORDER_STATUS_MACHINE
+    },
+    {
+      type: 'cancelOrders',
+      label: 'Cancel Orders',
+      icon: 'cancel',
+      width: '150px',
+      handler: scope => orders.runBulk('cancel', scope, ORDER_STATUS_MACHINE, 'cancelOrders'),
+      undo: tokens => dataService.undoBulk(tokens),
+      messages: {
+        progress: count => `Cancelling ${count} orders...`,
+        success: 'Orders cancelled successfully.',
+        pastTense: 'cancelled',
+        error: 'Failed to cancel orders.'
+      },
+      permission: 'orders:cancel',
+      statusMachine: ORDER_STATUS_MACHINE,
+      requiresConfirmation: true,
+      confirmation: {
+        title: 'Cancel orders?',
+        confirmLabel: 'Cancel Orders',
+        amount: order => order.amount,
+        totalLabel: 'Order total',
+        typeToConfirmThreshold: 10
+      }
+    },
+    {
+      type: 'refundOrders',
+      label: 'Refund Orders',
+      icon: 'payments',
+      width: '150px',
+      handler: (scope, params) => orders.runBulk('refund', scope, ORDER_STATUS_MACHINE, 'refundOrders', {
+        params: refundBody(refundFromForm(params))
+      }),
+      params: {
+        title: 'Refund amount',
+        submitLabel: 'Continue',
+        fields: [
+          {
+            key: 'mode',
+            label: 'Refund',
+            type: 'select',
+            required: true,
+            defaultValue: 'full',
+            options: [
+              { value: 'full', label: 'Full order amount' },
+              { value: 'amount', label: 'Fixed amount per order' },
+              { value: 'percentage', label: 'Percentage of each order' }
+            ]
+          },
+          {
+            key: 'amount',
+            label: 'Amount per order',
+            type: 'number',
+            required: true,
+            min: 0.01,
+            hint: 'Orders worth less are refunded in full',
+            visibleWhen: params => params['mode'] === 'amount'
+          },
+          {
+            key: 'percentage',
+            label: 'Percentage',
+            type: 'number',
+            required: true,
+            min: 1,
+            max: 100,
+            visibleWhen: params => params['mode'] === 'percentage'
+          }
+        ],
+        validate: params => refundParamsError(refundFromForm(params))
+      },
+      undo: tokens => dataService.undoBulk(tokens),
+      messages: {
+        progress: count => `Refunding ${count} orders...`,
+        success: 'Orders refunded successfully.',
+        pastTense: 'refunded',
+        error: 'Failed to refund orders.'
+      },
+      permission: 'orders:refund',
+      statusMachine: ORDER_STATUS_MACHINE,
+      requiresConfirmation: true,
+      confirmation: {
+        title: 'Refund orders?',
+        confirmLabel: 'Refund Orders',
+        amount: (order, params) => refundAmount(order, refundFromForm(params)),
+        totalLabel: 'Refund total',
+        typeToConfirmThreshold: 10
+      }
+    }
+  ];
+}
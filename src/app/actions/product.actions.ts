@@ -0,0 +1,60 @@
+import { inject } from '@angular/core';
+import { Product } from '../interfaces/data-item.interface';
+import { BulkActionDefinition } from '../interfaces/bulk-action.interface';
+import { EntityCollection } from '../interfaces/entity-collection.interface';
+import { DataService } from '../services/data.service';
+import { PRODUCT_STATUS_MACHINE } from '../models/status-machines';
+import { restockParams } from '../models/action-params.model';
+
+export function productActions(products: EntityCollection<Product>): BulkActionDefinition<Product>[] {
+  const dataService = inject(DataService);
+  return [
+    {
+      type: 'restockProducts',
+      label: 'Restock',
+      icon: 'inventory',
+      width: '150px',
+      handler: (scope, params) => products.runBulk('restock', scope, PRODUCT_STATUS_MACHINE, 'restockProducts', {
+        params: { ...restockParams(params) }
+      }),
+      params: {
+        title: 'Restock products',
+        submitLabel: 'Restock',
+        fields: [
+          { key: 'quantity', label: 'Units per product', type: 'number', required: true, min: 1, defaultValue: 50 }
+        ]
+      },
+      undo: tokens => dataService.undoBulk(tokens),
+      messages: {
+        progress: count => `Restocking ${count} products...`,
+        success: 'Products restocked successfully.',
+        pastTense: 'restocked',
+        error: 'Failed to restock products.'
+      },
+      permission: 'products:restock',
+      statusMachine: PRODUCT_STATUS_MACHINE
+    },
+    {
+      type: 'discontinueProducts',
+      label: 'Discontinue',
+      icon: 'block',
+      width: '160px',
+      handler: scope => products.runBulk('discontinue', scope, PRODUCT_STATUS_MACHINE, 'discontinueProducts'),
+      undo: tokens => dataService.undoBulk(tokens),
+      messages: {
+        progress: count => `Discontinuing ${count} products...`,
+        success: 'Products discontinued successfully.',
+        pastTense: 'discontinued',
+        error: 'Failed to discontinue products.'
+      },
+      permission: 'products:discontinue',
+      statusMachine: PRODUCT_STATUS_MACHINE,
+      requiresConfirmation: true,
+      confirmation: {
+        title: 'Discontinue products?',
+        confirmLabel: 'Discontinue',
+        typeToConfirmThreshold: 10
+      }
+    }
+  ];
+}
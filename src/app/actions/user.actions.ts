@@ -0,0 +1,113 @@
+import { inject } from '@angular/core';
+import { User } from '../interfaces/data-item.interface';
+import { BulkActionDefinition } from '../interfaces/bulk-action.interface';
+import { EntityCollection } from '../interfaces/entity-collection.interface';
+import { DataService } from '../services/data.service';
+import { ASSIGNABLE_USER_STATUSES, USER_STATUS_MACHINE } from '../models/status-machines';
+import { notificationParams, statusUpdateParams } from '../models/action-params.model';
+
+// User fields notification templates can reference
+const NOTIFICATION_FIELDS = ['name', 'email', 'department', 'status'];
+
+function titleCase(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+export function userActions(users: EntityCollection<User>): BulkActionDefinition<User>[] {
+  const dataService = inject(DataService);
+  return [
+    {
+      type: 'sendNotifications',
+      label: 'Send Notifications',
+      icon: 'send',
+      width: '175px',
+      handler: (scope, params) => users.runBulk('notify', scope, USER_STATUS_MACHINE, 'sendNotifications', {
+        params: { ...notificationParams(params) }
+      }),
+      params: {
+        title: 'Compose notification',
+        submitLabel: 'Continue',
+        fields: [
+          { key: 'subject', label: 'Subject', type: 'text', required: true, templateFields: NOTIFICATION_FIELDS },
+          {
+            key: 'body',
+            label: 'Message',
+            type: 'textarea',
+            required: true,
+            defaultValue: 'Hi {{name}},\n\n',
+            templateFields: NOTIFICATION_FIELDS
+          }
+        ]
+      },
+      messages: {
+        progress: count => `Sending notifications to ${count} users...`,
+        success: 'Notifications sent successfully.',
+        pastTense: 'notified',
+        error: 'Failed to send notifications.'
+      },
+      permission: 'users:notify',
+      statusMachine: USER_STATUS_MACHINE
+    },
+    {
+      type: 'updateStatus',
+      label: 'Update Status',
+      icon: 'update',
+      width: '150px',
+      handler: (scope, params) => {
+        const update = statusUpdateParams(params);
+        return users.runBulk('status', scope, USER_STATUS_MACHINE, 'updateStatus', {
+          params: { ...update },
+          targetStatus: update.status
+        });
+      },
+      params: {
+        title: 'Update status',
+        submitLabel: 'Update Status',
+        fields: [
+          {
+            key: 'status',
+            label: 'New status',
+            type: 'select',
+            required: true,
+            defaultValue: 'updated',
+            options: ASSIGNABLE_USER_STATUSES.map(status => ({ value: status, label: titleCase(status) }))
+          }
+        ]
+      },
+      undo: tokens => dataService.undoBulk(tokens),
+      messages: {
+        progress: count => `Updating status for ${count} users...`,
+        success: 'User status updated successfully.',
+        pastTense: 'updated',
+        error: 'Failed to update user status.'
+      },
+      permission: 'users:status',
+      statusMachine: USER_STATUS_MACHINE,
+      targetStatus: params => statusUpdateParams(params).status
+    },
+    {
+      type: 'resetPasswords',
+      label: 'Reset Passwords',
+      icon: 'lock_reset',
+      width: '160px',
+      handler: scope => users.runBulk('reset-password', scope, USER_STATUS_MACHINE, 'resetPasswords'),
+      undo: tokens => dataService.undoBulk(tokens),
+      messages: {
+        progress: count => `Resetting passwords for ${count} users...`,
+        success: 'Passwords reset successfully.',
+        pastTense: 'reset',
+        error: 'Failed to reset passwords.'
+      },
+      permission: 'users:reset-password',
+      // Not offered at all to roles that can't reset passwords
+      hideWhenDenied: true,
+      statusMachine: USER_STATUS_MACHINE,
+      requiresConfirmation: true,
+      confirmation: {
+        title: 'Reset passwords?',
+        confirmLabel: 'Reset Passwords',
+        typeToConfirmThreshold: 10
+      }
+    }
+  ];
+}
@@ -1,14 +1,30 @@
 import { ApplicationConfig, provideBrowserGlobalErrorListeners, provideZonelessChangeDetection } from '@angular/core';
 import { provideRouter } from '@angular/router';
+import { provideHttpClient, withInterceptors } from '@angular/common/http';
 
 import { routes } from './app.routes';
 import { provideAnimations } from '@angular/platform-browser/animations';
+import { provideEntity } from './services/entity-registry.service';
+import { ORDER_ENTITY } from './entities/order.entity';
+import { USER_ENTITY } from './entities/user.entity';
+import { PRODUCT_ENTITY } from './entities/product.entity';
+import { mockBackendInterceptor, provideMockBackend } from './mock-backend/mock-backend.interceptor';
+import { provideMockChangeFeed } from './mock-backend/mock-change-feed';
 
 export const appConfig: ApplicationConfig = {
   providers: [
     provideBrowserGlobalErrorListeners(),
     provideZonelessChangeDetection(),
     provideRouter(routes),
-    provideAnimations()
+    provideAnimations(),
+    // Serves the API from memory; drop the interceptor to talk to a real backend
+    provideHttpClient(withInterceptors([mockBackendInterceptor])),
+    provideMockBackend({ latencyMs: 500, bulkLatencyMs: 1000, errorRate: 0, changeIntervalMs: 8000 }),
+    // Simulates other clients' changes; drop it to listen to the server's change feed
+    provideMockChangeFeed(),
+    // Listed in the toolbar in this order
+    provideEntity(ORDER_ENTITY),
+    provideEntity(USER_ENTITY),
+    provideEntity(PRODUCT_ENTITY)
   ]
 };
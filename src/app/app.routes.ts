@@ -1,13 +1,20 @@
 import { Routes } from '@angular/router';
+import { entityRoute } from './pages/entity-table/entity-route';
+import { USER_ENTITY } from './entities/user.entity';
+import { ORDER_ENTITY } from './entities/order.entity';
+import { PRODUCT_ENTITY } from './entities/product.entity';
 
 export const routes: Routes = [
   { path: '', redirectTo: '/users', pathMatch: 'full' },
+  entityRoute(USER_ENTITY, () => import('./pages/users/users.component').then(m => m.UsersComponent)),
+  entityRoute(ORDER_ENTITY),
+  entityRoute(PRODUCT_ENTITY),
   { 
-    path: 'users', 
-    loadComponent: () => import('./pages/users/users.component').then(m => m.UsersComponent)
+    path: 'history', 
+    loadComponent: () => import('./pages/history/history.component').then(m => m.HistoryComponent)
   },
   { 
-    path: 'orders', 
-    loadComponent: () => import('./pages/orders/orders.component').then(m => m.OrdersComponent)
+    path: 'access-denied', 
+    loadComponent: () => import('./pages/access-denied/access-denied.component').then(m => m.AccessDeniedComponent)
   },
 ];
@@ -1,19 +1,75 @@
-import { Component, signal } from '@angular/core';
-import { RouterOutlet, RouterLink, RouterLinkActive } from '@angular/router';
+import { Component, inject, isDevMode, signal } from '@angular/core';
+import { Router, RouterOutlet, RouterLink, RouterLinkActive } from '@angular/router';
 import { MatToolbarModule } from '@angular/material/toolbar';
 import { MatButtonModule } from '@angular/material/button';
+import { MatIconModule } from '@angular/material/icon';
+import { MatBadgeModule } from '@angular/material/badge';
+import { MatTooltipModule } from '@angular/material/tooltip';
+import { MatMenuModule } from '@angular/material/menu';
+import { BulkJobsPanelComponent } from './components/bulk-jobs-panel/bulk-jobs-panel.component';
+import { BulkJobService } from './services/bulk-job.service';
+import { PermissionService } from './services/permission.service';
+import { LiveUpdatesService } from './services/live-updates.service';
+import { EntityRegistryService } from './services/entity-registry.service';
+import { DataItem } from './interfaces/data-item.interface';
+import { EntityDefinition } from './interfaces/entity-definition.interface';
+import { Role } from './interfaces/permission.interface';
+import { ROLE_LABELS, ROLES } from './models/role-permissions';
 
 @Component({
   selector: 'app-root',
-  imports: [RouterOutlet, RouterLink, RouterLinkActive, MatToolbarModule, MatButtonModule],
+  imports: [
+    RouterOutlet,
+    RouterLink,
+    RouterLinkActive,
+    MatToolbarModule,
+    MatButtonModule,
+    MatIconModule,
+    MatBadgeModule,
+    MatTooltipModule,
+    MatMenuModule,
+    BulkJobsPanelComponent
+  ],
   template: `
     <mat-toolbar color="primary">
       <span>Multi-Select Demo</span>
       <span class="spacer"></span>
-      <button mat-button routerLink="/orders" routerLinkActive="active">Orders Table Example</button>
-      <button mat-button routerLink="/users" routerLinkActive="active">Users Table Example</button>
+      @for (entity of entityRegistry.entities; track entity.key) {
+        @if (canView(entity)) {
+          <button mat-button [routerLink]="['/', entity.key]" routerLinkActive="active">{{ entity.navLabel }}</button>
+        }
+      }
+      <button mat-button routerLink="/history" routerLinkActive="active">History</button>
+      <button mat-icon-button type="button"
+        [attr.aria-label]="liveUpdates.live() ? 'Pause live updates' : 'Resume live updates'"
+        [matTooltip]="liveUpdates.live() ? 'Live updates on' : 'Live updates paused'"
+        [attr.aria-pressed]="liveUpdates.live()"
+        (click)="toggleLiveUpdates()">
+        <mat-icon>{{ liveUpdates.live() ? 'sensors' : 'sensors_off' }}</mat-icon>
+      </button>
+      <button mat-icon-button type="button" aria-label="Bulk jobs" matTooltip="Bulk jobs" [attr.aria-expanded]="jobsPanelOpen()" (click)="jobsPanelOpen.set(!jobsPanelOpen())">
+        <mat-icon [matBadge]="bulkJobs.activeCount()" [matBadgeHidden]="!bulkJobs.activeCount()" matBadgeColor="accent" matBadgeSize="small">work_history</mat-icon>
+      </button>
+      @if (devMode) {
+        <button mat-button type="button" matTooltip="Switch role (development only)" [matMenuTriggerFor]="roleMenu">
+          <mat-icon>badge</mat-icon>
+          {{ permissions.roleLabel() }}
+        </button>
+        <mat-menu #roleMenu="matMenu">
+          @for (role of roles; track role) {
+            <button mat-menu-item (click)="switchRole(role)">
+              <mat-icon>{{ permissions.roles().includes(role) ? 'radio_button_checked' : 'radio_button_unchecked' }}</mat-icon>
+              {{ roleLabels[role] }}
+            </button>
+          }
+        </mat-menu>
+      }
     </mat-toolbar>
-    
+
+    @if (jobsPanelOpen()) {
+      <app-bulk-jobs-panel class="jobs-panel-overlay" />
+    }
+
     <router-outlet />
   `,
   styles: [`
@@ -24,8 +80,46 @@ import { MatButtonModule } from '@angular/material/button';
     .active {
       background-color: rgba(255, 255, 255, 0.1);
     }
+
+    .jobs-panel-overlay {
+      position: fixed;
+      top: 64px;
+      right: 16px;
+      z-index: 1000;
+    }
   `]
 })
 export class App {
   protected readonly title = signal('multi-select-multi-action');
+  protected readonly bulkJobs = inject(BulkJobService);
+  protected readonly jobsPanelOpen = signal(false);
+  protected readonly permissions = inject(PermissionService);
+  protected readonly liveUpdates = inject(LiveUpdatesService);
+  protected readonly entityRegistry = inject(EntityRegistryService);
+  protected readonly devMode = isDevMode();
+  protected readonly roles = ROLES;
+  protected readonly roleLabels = ROLE_LABELS;
+  private router = inject(Router);
+
+  constructor() {
+    this.liveUpdates.connect();
+  }
+
+  canView(entity: EntityDefinition<DataItem>): boolean {
+    return this.permissions.has(`${entity.key}:view`);
+  }
+
+  toggleLiveUpdates() {
+    if (this.liveUpdates.live()) {
+      this.liveUpdates.disconnect();
+    } else {
+      this.liveUpdates.connect();
+    }
+  }
+
+  switchRole(role: Role) {
+    this.permissions.setRoles([role]);
+    // Re-run the route guards against the new role
+    this.router.navigateByUrl(this.router.url, { onSameUrlNavigation: 'reload' });
+  }
 }
@@ -0,0 +1,193 @@
+import { Component, DestroyRef, inject, signal } from '@angular/core';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import { CommonModule } from '@angular/common';
+import { AbstractControl, FormControl, FormGroup, ReactiveFormsModule, ValidationErrors, ValidatorFn, Validators } from '@angular/forms';
+import { MAT_DIALOG_DATA, MatDialogModule, MatDialogRef } from '@angular/material/dialog';
+import { MatButtonModule } from '@angular/material/button';
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatInputModule } from '@angular/material/input';
+import { MatSelectModule } from '@angular/material/select';
+import { DataItem } from '../../interfaces/data-item.interface';
+import { ActionParamField, ActionParams, ActionParamSchema } from '../../interfaces/action-params.interface';
+import { renderTemplate, unknownTemplateFields } from '../../models/action-params.model';
+
+export interface ActionParamsDialogData {
+  schema: ActionParamSchema;
+  // Item used to preview message templates
+  sample?: DataItem;
+}
+
+function templateValidator(allowedFields: string[]): ValidatorFn {
+  return (control: AbstractControl): ValidationErrors | null => {
+    const unknown = unknownTemplateFields(String(control.value ?? ''), allowedFields);
+    return unknown.length ? { unknownFields: unknown } : null;
+  };
+}
+
+@Component({
+  selector: 'app-action-params-dialog',
+  standalone: true,
+  imports: [
+    CommonModule,
+    ReactiveFormsModule,
+    MatDialogModule,
+    MatButtonModule,
+    MatFormFieldModule,
+    MatInputModule,
+    MatSelectModule
+  ],
+  template: `
+    <h2 mat-dialog-title>{{ data.schema.title }}</h2>
+    <form [formGroup]="form" (ngSubmit)="submit()">
+      <mat-dialog-content>
+        @for (field of data.schema.fields; track field.key) {
+          @if (isVisible(field)) {
+            <mat-form-field appearance="outline" class="param-field">
+              <mat-label>{{ field.label }}</mat-label>
+              @switch (field.type) {
+                @case ('select') {
+                  <mat-select [formControlName]="field.key">
+                    @for (option of field.options ?? []; track option.value) {
+                      <mat-option [value]="option.value">{{ option.label }}</mat-option>
+                    }
+                  </mat-select>
+                }
+                @case ('textarea') {
+                  <textarea matInput rows="4" [formControlName]="field.key"></textarea>
+                }
+                @case ('number') {
+                  <input matInput type="number" [formControlName]="field.key" [min]="field.min ?? null" [max]="field.max ?? null">
+                }
+                @default {
+                  <input matInput [formControlName]="field.key" autocomplete="off">
+                }
+              }
+              @if (field.templateFields) {
+                <mat-hint>Placeholders: {{ placeholders(field) }}</mat-hint>
+              } @else if (field.hint) {
+                <mat-hint>{{ field.hint }}</mat-hint>
+              }
+              <mat-error>{{ errorFor(field) }}</mat-error>
+            </mat-form-field>
+
+            @if (field.templateFields && data.sample && values()[field.key]) {
+              <p class="template-preview">
+                <span class="preview-label">Preview for {{ data.sample.name }}:</span>
+                {{ preview(field) }}
+              </p>
+            }
+          }
+        }
+
+        @if (formError()) {
+          <p class="form-error" role="alert">{{ formError() }}</p>
+        }
+      </mat-dialog-content>
+      <mat-dialog-actions align="end">
+        <button mat-button type="button" mat-dialog-close>Back</button>
+        <button mat-raised-button color="primary" type="submit" [disabled]="form.invalid || !!formError()">
+          {{ data.schema.submitLabel }}
+        </button>
+      </mat-dialog-actions>
+    </form>
+  `,
+  styleUrls: ['./action-params-dialog.component.scss']
+})
+export class ActionParamsDialogComponent {
+  data: ActionParamsDialogData = inject(MAT_DIALOG_DATA);
+  private dialogRef = inject(MatDialogRef<ActionParamsDialogComponent, ActionParams>);
+
+  form = new FormGroup<Record<string, FormControl<string | number | null>>>(
+    Object.fromEntries(this.data.schema.fields.map(field => [field.key, this.createControl(field)]))
+  );
+  values = signal<ActionParams>(this.currentValues());
+  formError = signal<string | null>(null);
+
+  constructor() {
+    this.updateFields();
+    this.form.valueChanges
+      .pipe(takeUntilDestroyed(inject(DestroyRef)))
+      .subscribe(() => this.updateFields());
+  }
+
+  isVisible(field: ActionParamField): boolean {
+    return !field.visibleWhen || field.visibleWhen(this.values());
+  }
+
+  placeholders(field: ActionParamField): string {
+    return (field.templateFields ?? []).map(name => `{{${name}}}`).join(', ');
+  }
+
+  preview(field: ActionParamField): string {
+    return this.data.sample ? renderTemplate(String(this.values()[field.key] ?? ''), this.data.sample) : '';
+  }
+
+  errorFor(field: ActionParamField): string {
+    const errors = this.form.controls[field.key].errors;
+    if (!errors) {
+      return '';
+    }
+    if (errors['required']) {
+      return `${field.label} is required`;
+    }
+    if (errors['min']) {
+      return `Must be at least ${field.min}`;
+    }
+    if (errors['max']) {
+      return `Must be at most ${field.max}`;
+    }
+    if (errors['unknownFields']) {
+      return `Unknown placeholder: ${(errors['unknownFields'] as string[]).join(', ')}`;
+    }
+    return 'Invalid value';
+  }
+
+  submit() {
+    if (this.form.valid && !this.formError()) {
+      this.dialogRef.close(this.values());
+    }
+  }
+
+  private createControl(field: ActionParamField): FormControl<string | number | null> {
+    const validators: ValidatorFn[] = [];
+    if (field.required) {
+      validators.push(Validators.required);
+    }
+    if (field.min !== undefined) {
+      validators.push(Validators.min(field.min));
+    }
+    if (field.max !== undefined) {
+      validators.push(Validators.max(field.max));
+    }
+    if (field.templateFields) {
+      validators.push(templateValidator(field.templateFields));
+    }
+    return new FormControl<string | number | null>(field.defaultValue ?? null, validators);
+  }
+
+  // Hidden fields are disabled so they neither validate nor end up in the values
+  private updateFields() {
+    const values = this.currentValues();
+    this.data.schema.fields.forEach(field => {
+      const control = this.form.controls[field.key];
+      const visible = !field.visibleWhen || field.visibleWhen(values);
+      if (visible && control.disabled) {
+        control.enable({ emitEvent: false });
+      } else if (!visible && control.enabled) {
+        control.disable({ emitEvent: false });
+      }
+    });
+    this.values.set(this.currentValues());
+    this.formError.set(this.data.schema.validate?.(this.values()) ?? null);
+  }
+
+  private currentValues(): ActionParams {
+    const params: ActionParams = {};
+    Object.entries(this.form.value).forEach(([key, value]) => {
+      if (value !== null && value !== undefined && value !== '') {
+        params[key] = value;
+      }
+    });
+    return params;
+  }
+}
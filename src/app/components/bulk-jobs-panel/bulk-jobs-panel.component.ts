@@ -0,0 +1,95 @@
+import { Component, inject } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { MatButtonModule } from '@angular/material/button';
+import { MatIconModule } from '@angular/material/icon';
+import { MatProgressBarModule } from '@angular/material/progress-bar';
+import { MatDialog } from '@angular/material/dialog';
+import { BulkJob } from '../../interfaces/bulk-job.interface';
+import { BulkJobService } from '../../services/bulk-job.service';
+import { countOutcomes } from '../../models/bulk-action-report.model';
+import { BulkResultDialogComponent, BulkResultDialogData } from '../bulk-result-dialog/bulk-result-dialog.component';
+
+@Component({
+  selector: 'app-bulk-jobs-panel',
+  standalone: true,
+  imports: [CommonModule, MatButtonModule, MatIconModule, MatProgressBarModule],
+  template: `
+    <div class="jobs-panel" role="region" aria-label="Bulk jobs">
+      <div class="jobs-header">
+        <h3>Bulk jobs</h3>
+        <button mat-button type="button" (click)="bulkJobs.clearFinished()" [disabled]="bulkJobs.jobs().length === bulkJobs.activeCount()">
+          Clear finished
+        </button>
+      </div>
+
+      @for (job of bulkJobs.jobs(); track job.id) {
+        <div class="job" [class]="'job-' + job.status">
+          <div class="job-title">
+            <span class="job-label">{{ job.label }}</span>
+            <span class="job-context">{{ job.context }}</span>
+            <span class="job-status">{{ statusLabel(job) }}</span>
+          </div>
+
+          @if (job.finishedAt) {
+            <div class="job-summary">
+              <span>{{ job.summary }}</span>
+              @if (hasDetails(job)) {
+                <button mat-button type="button" (click)="openDetails(job)">Details</button>
+              }
+            </div>
+          } @else {
+            <mat-progress-bar [mode]="job.total ? 'determinate' : 'indeterminate'" [value]="progress(job)"></mat-progress-bar>
+            <div class="job-summary">
+              <span>{{ job.processed | number }} / {{ job.total | number }}</span>
+              <button mat-button type="button" (click)="bulkJobs.cancel(job.id)" [disabled]="job.status === 'canceling'">Cancel</button>
+            </div>
+          }
+        </div>
+      } @empty {
+        <p class="no-jobs">No bulk jobs yet</p>
+      }
+    </div>
+  `,
+  styleUrls: ['./bulk-jobs-panel.component.scss']
+})
+export class BulkJobsPanelComponent {
+  protected bulkJobs = inject(BulkJobService);
+  private dialog = inject(MatDialog);
+
+  progress(job: BulkJob): number {
+    return job.total ? job.processed / job.total * 100 : 0;
+  }
+
+  statusLabel(job: BulkJob): string {
+    switch (job.status) {
+      case 'running':
+        return 'Running';
+      case 'canceling':
+        return 'Canceling…';
+      case 'completed':
+        return 'Completed';
+      case 'canceled':
+        return 'Canceled';
+      case 'failed':
+        return 'Failed';
+    }
+  }
+
+  hasDetails(job: BulkJob): boolean {
+    if (!job.report) {
+      return false;
+    }
+    const counts = countOutcomes(job.report);
+    return counts.failed > 0 || counts.skipped > 0;
+  }
+
+  openDetails(job: BulkJob) {
+    if (!job.report) {
+      return;
+    }
+    this.dialog.open<BulkResultDialogComponent, BulkResultDialogData>(BulkResultDialogComponent, {
+      width: '480px',
+      data: { title: job.label, summary: job.summary ?? '', report: job.report }
+    });
+  }
+}
@@ -0,0 +1,63 @@
+import { Component, inject } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { MAT_DIALOG_DATA, MatDialogModule } from '@angular/material/dialog';
+import { MatButtonModule } from '@angular/material/button';
+import { MatIconModule } from '@angular/material/icon';
+import { MatListModule } from '@angular/material/list';
+import { BulkActionReport } from '../../interfaces/bulk-action.interface';
+import { countOutcomes, resultsWithOutcome } from '../../models/bulk-action-report.model';
+
+export interface BulkResultDialogData {
+  title: string;
+  summary: string;
+  report: BulkActionReport;
+}
+
+@Component({
+  selector: 'app-bulk-result-dialog',
+  standalone: true,
+  imports: [CommonModule, MatDialogModule, MatButtonModule, MatIconModule, MatListModule],
+  template: `
+    <h2 mat-dialog-title>{{ data.title }}</h2>
+    <mat-dialog-content>
+      <p class="summary">{{ data.summary }}</p>
+
+      @if (failed.length) {
+        <h3 class="section-title">Failed ({{ counts.failed }})</h3>
+        <mat-list>
+          @for (result of failed; track result.id) {
+            <mat-list-item>
+              <mat-icon matListItemIcon class="failed-icon">error</mat-icon>
+              <span matListItemTitle>{{ result.name }}</span>
+              <span matListItemLine>{{ result.reason }}</span>
+            </mat-list-item>
+          }
+        </mat-list>
+      }
+
+      @if (skipped.length) {
+        <h3 class="section-title">Skipped ({{ counts.skipped }})</h3>
+        <mat-list>
+          @for (result of skipped; track result.id) {
+            <mat-list-item>
+              <mat-icon matListItemIcon class="skipped-icon">block</mat-icon>
+              <span matListItemTitle>{{ result.name }}</span>
+              <span matListItemLine>{{ result.reason }}</span>
+            </mat-list-item>
+          }
+        </mat-list>
+      }
+    </mat-dialog-content>
+    <mat-dialog-actions align="end">
+      <button mat-button mat-dialog-close>Close</button>
+    </mat-dialog-actions>
+  `,
+  styleUrls: ['./bulk-result-dialog.component.scss']
+})
+export class BulkResultDialogComponent {
+  data: BulkResultDialogData = inject(MAT_DIALOG_DATA);
+
+  counts = countOutcomes(this.data.report);
+  failed = resultsWithOutcome(this.data.report, 'failed');
+  skipped = resultsWithOutcome(this.data.report, 'skipped');
+}
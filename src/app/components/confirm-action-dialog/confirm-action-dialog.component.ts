@@ -0,0 +1,122 @@
+import { Component, computed, inject, LOCALE_ID, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { MAT_DIALOG_DATA, MatDialogModule } from '@angular/material/dialog';
+import { MatButtonModule } from '@angular/material/button';
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatInputModule } from '@angular/material/input';
+import { MatTableModule } from '@angular/material/table';
+import { DataItem } from '../../interfaces/data-item.interface';
+import { BulkActionConfirmation } from '../../interfaces/bulk-action.interface';
+import { ActionParams } from '../../interfaces/action-params.interface';
+import { ColumnDef } from '../../interfaces/column-def.interface';
+import { formatAsTitleCase, formatColumnValue } from '../../models/column-formatters';
+
+// Fields every entity has, for entities that don't pick preview columns
+function defaultPreviewColumns<T extends DataItem>(): ColumnDef<T>[] {
+  return [
+    { key: 'name', header: 'Name' },
+    { key: 'status', header: 'Status', format: formatAsTitleCase }
+  ];
+}
+
+export interface ConfirmActionDialogData<T extends DataItem = DataItem> {
+  confirmation: BulkActionConfirmation<T>;
+  // Items the action will actually change
+  items: T[];
+  // Entity columns to preview the items with; the action's amount is added after them
+  columns?: ColumnDef<T>[];
+  // Selected items the action does not apply to and will skip
+  skippedCount: number;
+  // Values from the action's parameter form, e.g. the refund amount
+  params?: ActionParams;
+  // Set when all matching rows are selected and only some are loaded
+  totalCount?: number;
+  // Shown before the preview, e.g. when selected items changed meanwhile
+  warning?: string;
+}
+
+@Component({
+  selector: 'app-confirm-action-dialog',
+  standalone: true,
+  imports: [CommonModule, MatDialogModule, MatButtonModule, MatFormFieldModule, MatInputModule, MatTableModule],
+  template: `
+    <h2 mat-dialog-title>{{ data.confirmation.title }}</h2>
+    <mat-dialog-content>
+      @if (data.warning) {
+        <p class="warning-note" role="alert">{{ data.warning }}</p>
+      }
+      @if (data.totalCount !== undefined) {
+        <p>This will affect up to <strong>{{ data.totalCount | number }}</strong> matching items. Items the action does not apply to will be skipped.</p>
+        <p class="preview-note">Previewing the {{ data.items.length }} loaded item{{ data.items.length === 1 ? '' : 's' }}:</p>
+      } @else {
+        <p>This will affect <strong>{{ data.items.length }}</strong> selected item{{ data.items.length === 1 ? '' : 's' }}.</p>
+      }
+      @if (data.skippedCount) {
+        <p class="skipped-note">{{ data.skippedCount }} selected item{{ data.skippedCount === 1 ? '' : 's' }} will be skipped.</p>
+      }
+
+      <div class="preview-wrapper">
+        <table mat-table [dataSource]="data.items" class="preview-table">
+          @for (column of previewColumns; track column.key) {
+            <ng-container [matColumnDef]="column.key">
+              <th mat-header-cell *matHeaderCellDef>{{ column.header }}</th>
+              <td mat-cell *matCellDef="let row">{{ cellText(column, row) }}</td>
+            </ng-container>
+          }
+
+          <ng-container matColumnDef="actionAmount">
+            <th mat-header-cell *matHeaderCellDef>Amount</th>
+            <td mat-cell *matCellDef="let row">{{ amountOf(row) | currency }}</td>
+          </ng-container>
+
+          <tr mat-header-row *matHeaderRowDef="columns; sticky: true"></tr>
+          <tr mat-row *matRowDef="let row; columns: columns;"></tr>
+        </table>
+      </div>
+
+      @if (data.confirmation.amount && data.totalCount === undefined) {
+        <p class="total">{{ data.confirmation.totalLabel || 'Total' }}: {{ total | currency }}</p>
+      }
+
+      @if (requiresTyping) {
+        <mat-form-field class="confirm-field" appearance="outline">
+          <mat-label>Type {{ affectedCount }} to confirm</mat-label>
+          <input #confirmInput matInput autocomplete="off" [value]="typed()" (input)="typed.set(confirmInput.value)">
+        </mat-form-field>
+      }
+    </mat-dialog-content>
+    <mat-dialog-actions align="end">
+      <button mat-button [mat-dialog-close]="false">Back</button>
+      <button mat-raised-button color="warn" [mat-dialog-close]="true" [disabled]="!canConfirm()">
+        {{ data.confirmation.confirmLabel }}
+      </button>
+    </mat-dialog-actions>
+  `,
+  styleUrls: ['./confirm-action-dialog.component.scss']
+})
+export class ConfirmActionDialogComponent<T extends DataItem> {
+  data: ConfirmActionDialogData<T> = inject(MAT_DIALOG_DATA);
+  private locale = inject(LOCALE_ID);
+
+  previewColumns: ColumnDef<T>[] = this.data.columns?.length ? this.data.columns : defaultPreviewColumns();
+  columns = [
+    ...this.previewColumns.map(column => column.key),
+    ...(this.data.confirmation.amount ? ['actionAmount'] : [])
+  ];
+  total = this.data.items.reduce((sum, item) => sum + this.amountOf(item), 0);
+  affectedCount = this.data.totalCount ?? this.data.items.length;
+  requiresTyping = this.affectedCount >= (this.data.confirmation.typeToConfirmThreshold ?? Infinity);
+
+  typed = signal('');
+  canConfirm = computed(() =>
+    this.affectedCount > 0 && (!this.requiresTyping || this.typed().trim() === String(this.affectedCount))
+  );
+
+  cellText(column: ColumnDef<T>, item: T): string {
+    return formatColumnValue(column, item, this.locale);
+  }
+
+  amountOf(item: T): number {
+    return this.data.confirmation.amount?.(item, this.data.params) ?? 0;
+  }
+}
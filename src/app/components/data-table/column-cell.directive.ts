@@ -0,0 +1,27 @@
+import { Directive, Input, TemplateRef, inject } from '@angular/core';
+import { DataItem } from '../../interfaces/data-item.interface';
+import { ColumnCellContext } from '../../interfaces/column-def.interface';
+import { EntityDefinition } from '../../interfaces/entity-definition.interface';
+
+/**
+ * Overrides the cell content of a column from the page template:
+ * `<ng-template appColumnCell="amount" let-row let-value="value">…</ng-template>`.
+ * Binding `[appColumnCellEntity]` types `row` as that entity's item.
+ */
+@Directive({
+  selector: 'ng-template[appColumnCell]',
+  standalone: true
+})
+export class ColumnCellDirective<T extends DataItem = DataItem> {
+  @Input({ alias: 'appColumnCell', required: true }) columnKey = '';
+  // Only there to infer the row type
+  @Input('appColumnCellEntity') entity?: EntityDefinition<T>;
+  templateRef: TemplateRef<ColumnCellContext<T>> = inject(TemplateRef);
+
+  static ngTemplateContextGuard<T extends DataItem>(
+    _directive: ColumnCellDirective<T>,
+    context: unknown
+  ): context is ColumnCellContext<T> {
+    return true;
+  }
+}
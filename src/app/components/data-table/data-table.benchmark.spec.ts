@@ -0,0 +1,117 @@
+import { provideZonelessChangeDetection } from '@angular/core';
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { provideHttpClient, withInterceptors } from '@angular/common/http';
+import { provideNoopAnimations } from '@angular/platform-browser/animations';
+import { provideRouter } from '@angular/router';
+import { User } from '../../interfaces/data-item.interface';
+import { ColumnDef } from '../../interfaces/column-def.interface';
+import { CustomSelectionModel } from '../../models/custom-selection.model';
+import { mockBackendInterceptor } from '../../mock-backend/mock-backend.interceptor';
+import { DataTableComponent } from './data-table.component';
+
+// Wall-clock budgets, so this suite is left out of `npm test`; run it on its
+// own with `npm run benchmark`. They are far below what linear scans per row
+// (O(n·m)) take at these sizes
+const RENDER_BUDGET_MS = 1500;
+const SELECT_ALL_BUDGET_MS = 500;
+const LOOKUP_BUDGET_MS = 100;
+const TOGGLE_BUDGET_MS = 50;
+
+const COLUMNS: ColumnDef<User>[] = [
+  { key: 'name', header: 'Name' },
+  { key: 'email', header: 'Email' },
+  { key: 'department', header: 'Department' },
+  { key: 'status', header: 'Status', cell: 'status' }
+];
+
+function createUsers(count: number): User[] {
+  return Array.from({ length: count }, (_, index) => ({
+    id: `u${index}`,
+    name: `User ${index}`,
+    email: `user${index}@example.com`,
+    status: 'active',
+    createdAt: new Date('2024-01-01'),
+    type: 'user',
+    department: 'Engineering',
+    lastLogin: new Date('2024-07-01')
+  }));
+}
+
+function timed(run: () => void): number {
+  const start = performance.now();
+  run();
+  return performance.now() - start;
+}
+
+describe('DataTableComponent with large data', () => {
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [DataTableComponent],
+      providers: [
+        provideZonelessChangeDetection(),
+        provideNoopAnimations(),
+        provideRouter([]),
+        provideHttpClient(withInterceptors([mockBackendInterceptor]))
+      ]
+    }).compileComponents();
+  });
+
+  [10_000, 50_000].forEach(count => {
+    describe(`at ${count.toLocaleString('en-US')} rows`, () => {
+      let rows: User[];
+      let fixture: ComponentFixture<DataTableComponent<User>>;
+
+      beforeEach(() => {
+        rows = createUsers(count);
+        fixture = TestBed.createComponent<DataTableComponent<User>>(DataTableComponent);
+        fixture.componentRef.setInput('columns', COLUMNS);
+        fixture.componentRef.setInput('virtualScroll', true);
+        fixture.componentRef.setInput('dataSource', rows);
+        fixture.componentRef.setInput('total', count);
+      });
+
+      it('renders only the rows in view', async () => {
+        const start = performance.now();
+        fixture.detectChanges();
+        await fixture.whenStable();
+        const elapsed = performance.now() - start;
+
+        const rendered = (fixture.nativeElement as HTMLElement).querySelectorAll('tr.virtual-row').length;
+        expect(rendered).toBeGreaterThan(0);
+        expect(rendered).toBeLessThan(100);
+        expect(elapsed).toBeLessThan(RENDER_BUDGET_MS);
+      });
+
+      it('selects all rows and looks them up in constant time', async () => {
+        fixture.detectChanges();
+        await fixture.whenStable();
+        const table = fixture.componentInstance;
+        table.toggleMultiSelect();
+
+        const selectAll = timed(() => table.toggleAllOnPage(true));
+        const lookups = timed(() => rows.forEach(row => table.selection.isSelected(row)));
+        const toggle = timed(() => table.selection.toggle(rows[count / 2]));
+
+        expect(table.isIndeterminate()).toBeTrue();
+        expect(table.selectedCount()).toBe(count - 1);
+        expect(selectAll).toBeLessThan(SELECT_ALL_BUDGET_MS);
+        expect(lookups).toBeLessThan(LOOKUP_BUDGET_MS);
+        expect(toggle).toBeLessThan(TOGGLE_BUDGET_MS);
+      });
+    });
+
+    it(`keeps model operations constant-time at ${count.toLocaleString('en-US')} selected rows`, () => {
+      const rows = createUsers(count);
+      const selection = new CustomSelectionModel<User>(true);
+
+      const selectAll = timed(() => selection.select(...rows));
+      const lookups = timed(() => rows.forEach(row => selection.isSelected(row)));
+      const deselect = timed(() => selection.deselect(rows[0]));
+
+      expect(selection.selected.length).toBe(count - 1);
+      expect(selectAll).toBeLessThan(SELECT_ALL_BUDGET_MS);
+      expect(lookups).toBeLessThan(LOOKUP_BUDGET_MS);
+      expect(deselect).toBeLessThan(TOGGLE_BUDGET_MS);
+    });
+  });
+});
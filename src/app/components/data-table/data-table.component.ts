@@ -1,27 +1,70 @@
-import { Component, Input, OnInit, OnChanges, SimpleChanges } from '@angular/core';
+import { Component, Input, Output, EventEmitter, OnInit, OnChanges, SimpleChanges, DestroyRef, ElementRef, Injector, ViewChild, ContentChildren, QueryList, TemplateRef, LOCALE_ID, afterNextRender, inject, signal } from '@angular/core';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import { ActivatedRoute, Router } from '@angular/router';
 import { CommonModule } from '@angular/common';
 import { MatTableModule } from '@angular/material/table';
+import { CdkVirtualScrollViewport, ScrollingModule } from '@angular/cdk/scrolling';
 import { MatCheckboxModule } from '@angular/material/checkbox';
 import { MatButtonModule } from '@angular/material/button';
 import { MatIconModule } from '@angular/material/icon';
 import { MatTooltipModule } from '@angular/material/tooltip';
 import { MatChipsModule } from '@angular/material/chips';
+import { MatSnackBar } from '@angular/material/snack-bar';
+import { MatDialog } from '@angular/material/dialog';
+import { MatMenuModule } from '@angular/material/menu';
+import { MatPaginatorModule, PageEvent } from '@angular/material/paginator';
+import { MatSortModule, Sort } from '@angular/material/sort';
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatInputModule } from '@angular/material/input';
+import { MatSelectModule } from '@angular/material/select';
+import { Subject, debounceTime, distinctUntilChanged } from 'rxjs';
 import { DataItem } from '../../interfaces/data-item.interface';
+import { DataFilter, FilterOperator, TableQuery } from '../../interfaces/data-query.interface';
+import { ColumnCellContext, ColumnDef } from '../../interfaces/column-def.interface';
+import { GroupAggregate, RowGroup, RowGroupSummary, RowGrouping } from '../../interfaces/row-grouping.interface';
 import { CustomSelectionModel } from '../../models/custom-selection.model';
+import { DEFAULT_TABLE_QUERY, sameFilters } from '../../models/data-query.model';
+import { SelectionScope, scopeCount } from '../../models/selection-scope.model';
+import { columnValue, formatColumnValue } from '../../models/column-formatters';
+import { groupFilters, groupRows } from '../../models/row-grouping.model';
+import { idsFromCsv } from '../../models/csv.model';
+import { tableStateFromParams, tableStateToParams } from '../../models/table-url-state.model';
+import { DataService } from '../../services/data.service';
+import { ExportFormat, ExportService } from '../../services/export.service';
+import { SavedSelectionService } from '../../services/saved-selection.service';
+import { RuleField, SavedSelection } from '../../interfaces/saved-selection.interface';
+import { BulkResultDialogComponent, BulkResultDialogData } from '../bulk-result-dialog/bulk-result-dialog.component';
+import { RowDetailDrawerComponent, RowDetailDrawerData } from '../row-detail-drawer/row-detail-drawer.component';
 import { MultiSelectActionsComponent } from '../multi-select-actions/multi-select-actions.component';
+import { ColumnCellDirective } from './column-cell.directive';
 import { trigger, state, style, animate, transition } from '@angular/animations';
 
+// Header row of a group, rendered in place of its first member
+interface GroupHeaderRow<T extends DataItem> {
+  id: string;
+  groupHeader: RowGroup<T>;
+}
+
+type TableRow<T extends DataItem> = T | GroupHeaderRow<T>;
+
 @Component({
   selector: 'app-data-table',
   standalone: true,
   imports: [
     CommonModule,
     MatTableModule,
+    ScrollingModule,
     MatCheckboxModule,
     MatButtonModule,
     MatIconModule,
     MatTooltipModule,
     MatChipsModule,
+    MatPaginatorModule,
+    MatSortModule,
+    MatFormFieldModule,
+    MatInputModule,
+    MatSelectModule,
+    MatMenuModule,
     MultiSelectActionsComponent
   ],
   animations: [
@@ -52,9 +95,15 @@ import { trigger, state, style, animate, transition } from '@angular/animations'
         <app-multi-select-actions
           *ngIf="multiSelect"
           [@fadeInOut]
-          [selectedItems]="selection.selected"
+          [selectedItems]="selectedRows"
+          [scope]="selection.scope"
           [actionContext]="actionContext"
+          [filters]="query.filters"
+          [ruleFields]="ruleFields"
+          (applySaved)="applySavedSelection($event)"
           (clearSelected)="clearSelection()"
+          (deselectItem)="selection.deselect($event)"
+          (retainSelected)="retainSelection($event)"
         ></app-multi-select-actions>
       </div>
 
@@ -71,91 +120,282 @@ import { trigger, state, style, animate, transition } from '@angular/animations'
             Multi select
           </button>
         </ng-template>
+        @if (restoringSelection()) {
+          <span class="restoring-hint">Restoring selection…</span>
+        }
+        <span class="toggle-row-spacer"></span>
+        <button mat-stroked-button type="button" [matMenuTriggerFor]="exportMenu" [disabled]="exporting()">
+          <mat-icon>download</mat-icon>
+          Export
+        </button>
+        <mat-menu #exportMenu="matMenu">
+          <button mat-menu-item [disabled]="!multiSelect || !selectedCount()" (click)="exportRows('selection', 'csv')">
+            Selected rows as CSV
+          </button>
+          <button mat-menu-item [disabled]="!multiSelect || !selectedCount()" (click)="exportRows('selection', 'json')">
+            Selected rows as JSON
+          </button>
+          <button mat-menu-item [disabled]="!total" (click)="exportRows('filtered', 'csv')">
+            All {{ total | number }} filtered rows as CSV
+          </button>
+          <button mat-menu-item [disabled]="!total" (click)="exportRows('filtered', 'json')">
+            All {{ total | number }} filtered rows as JSON
+          </button>
+        </mat-menu>
+        <button mat-stroked-button type="button" matTooltip="Select the rows listed in a CSV file of ids" [disabled]="importing()" (click)="importInput.click()">
+          <mat-icon>upload</mat-icon>
+          Import ids
+        </button>
+        <input #importInput type="file" accept=".csv,text/csv,text/plain" hidden (change)="importIds(importInput)">
       </div>
 
-      <div class="table-wrapper">
-        <table mat-table [dataSource]="dataSource || []" class="mat-elevation-2">
+      <div class="filter-bar">
+        <mat-form-field appearance="outline" class="filter-field">
+          <mat-label>Search by name</mat-label>
+          <mat-icon matPrefix>search</mat-icon>
+          <input #searchInput matInput [value]="filterValue('name')" (input)="searchTerms.next(searchInput.value)">
+        </mat-form-field>
+        @if (statusOptions.length) {
+          <mat-form-field appearance="outline" class="filter-field">
+            <mat-label>Status</mat-label>
+            <mat-select [value]="filterValue('status')" (selectionChange)="setFilter('status', 'eq', $event.value)">
+              <mat-option value="">Any</mat-option>
+              @for (status of statusOptions; track status) {
+                <mat-option [value]="status">{{ status | titlecase }}</mat-option>
+              }
+            </mat-select>
+          </mat-form-field>
+        }
+        @if (groupings.length) {
+          <mat-form-field appearance="outline" class="filter-field">
+            <mat-label>Group by</mat-label>
+            <mat-select [value]="grouping?.key ?? ''" (selectionChange)="setGrouping($event.value)">
+              <mat-option value="">None</mat-option>
+              @for (option of groupings; track option.key) {
+                <mat-option [value]="option.key">{{ option.label }}</mat-option>
+              }
+            </mat-select>
+          </mat-form-field>
+        }
+        @for (filter of extraFilters(); track filter.field) {
+          <mat-chip class="filter-chip" (removed)="setFilter(filter.field, filter.operator, '')">
+            {{ filter.field }}: {{ filter.value }}
+            <button matChipRemove [attr.aria-label]="'Remove ' + filter.field + ' filter'">
+              <mat-icon>cancel</mat-icon>
+            </button>
+          </mat-chip>
+        }
+      </div>
+
+      @if (multiSelect && showSelectAllBanner()) {
+        <div class="select-all-banner">
+          @if (selection.isAllMatching) {
+            <span>All {{ selectedCount() | number }} matching rows are selected.</span>
+            <button mat-button color="primary" (click)="clearSelection()">Clear selection</button>
+          } @else {
+            <span>All {{ dataSource.length }} {{ virtualScroll ? 'loaded rows' : 'rows on this page' }} are selected.</span>
+            <button mat-button color="primary" (click)="selectAllMatching()">Select all {{ total | number }} matching rows</button>
+          }
+        </div>
+      }
+
+      <ng-template #cellContent let-column let-row="row">
+        @if (cellTemplate(column); as template) {
+          <ng-container *ngTemplateOutlet="template; context: { $implicit: row, value: cellValue(column, row) }"></ng-container>
+        } @else if (column.cell === 'status') {
+          <mat-chip 
+            [ngClass]="'status-' + cellValue(column, row)"
+            [class.status-chip-pending]="pendingIds.has(row.id)"
+            [attr.aria-busy]="pendingIds.has(row.id) || null"
+            class="status-chip">
+            {{ displayValue(column, row) }}
+            @if (pendingIds.has(row.id)) {
+              <mat-icon class="pending-icon" aria-label="Saving">sync</mat-icon>
+            }
+          </mat-chip>
+        } @else if (column.cell === 'chip') {
+          <mat-chip class="type-chip">
+            {{ displayValue(column, row) }}
+          </mat-chip>
+        } @else {
+          {{ displayValue(column, row) }}
+        }
+      </ng-template>
+
+      <ng-template #selectAllCheckbox>
+        <mat-checkbox 
+          [attr.aria-label]="virtualScroll ? 'Select all rows' : 'Select all rows on this page'"
+          [checked]="isAllSelected()"
+          [indeterminate]="isIndeterminate()"
+          (change)="toggleAllOnPage($event.checked)">
+        </mat-checkbox>
+      </ng-template>
+
+      <ng-template #rowCheckbox let-row let-i="index">
+        <mat-checkbox 
+          tabindex="-1"
+          [attr.aria-label]="'Select ' + row.name"
+          [checked]="selection.isSelected(row)"
+          (click)="onRowClick($event, row, i)">
+        </mat-checkbox>
+      </ng-template>
+
+      <ng-template #groupHeader let-group>
+        <div class="group-header">
           @if (multiSelect) {
-            <ng-container matColumnDef="select">
-              <th mat-header-cell *matHeaderCellDef>
-                <mat-checkbox 
-                  [checked]="isAllSelected()"
-                  [indeterminate]="isIndeterminate()"
-                  (change)="toggleAllOnPage($event.checked)">
-                </mat-checkbox>
-              </th>
-              <td mat-cell *matCellDef="let row">
-                <mat-checkbox 
-                  [checked]="selection.isSelected(row)"
-                  (change)="checkRow(row)">
-                </mat-checkbox>
+            <mat-checkbox
+              [attr.aria-label]="'Select every row in ' + groupHeading(group)"
+              [checked]="isGroupSelected(group)"
+              [indeterminate]="isGroupIndeterminate(group)"
+              [disabled]="togglingGroups().has(group.key)"
+              (change)="toggleGroup(group, $event.checked)">
+            </mat-checkbox>
+          }
+          <button mat-icon-button type="button"
+            [attr.aria-label]="(collapsedGroups.has(group.key) ? 'Expand ' : 'Collapse ') + groupHeading(group)"
+            [attr.aria-expanded]="!collapsedGroups.has(group.key)"
+            (click)="toggleGroupCollapsed(group)">
+            <mat-icon>{{ collapsedGroups.has(group.key) ? 'chevron_right' : 'expand_more' }}</mat-icon>
+          </button>
+          <span class="group-heading">{{ groupHeading(group) }}</span>
+          <span class="group-count">{{ groupCount(group) }} row{{ groupCount(group) === 1 ? '' : 's' }}</span>
+          @for (aggregate of grouping?.aggregates ?? []; track aggregate.label; let a = $index) {
+            <span class="group-aggregate">{{ aggregate.label }}: {{ aggregateValue(aggregate, groupTotal(group, a)) }}</span>
+          }
+        </div>
+      </ng-template>
+
+      @if (virtualScroll) {
+        <!-- Only the rows in view are rendered, so every loaded row is shown without paging -->
+        <cdk-virtual-scroll-viewport class="virtual-viewport mat-elevation-2"
+          [itemSize]="virtualRowHeight"
+          [style.height.px]="virtualViewportHeight"
+          (scrolledIndexChange)="onScrolledIndex($event)">
+          <table #table class="virtual-table"
+            [class.multi-select-active]="multiSelect"
+            [class.details-enabled]="!multiSelect"
+            role="grid"
+            [attr.aria-multiselectable]="multiSelect || null"
+            [attr.aria-rowcount]="tableRows.length + 1"
+            matSort
+            [matSortActive]="query.sortField ?? ''"
+            [matSortDirection]="query.sortDirection ?? ''"
+            (matSortChange)="onSort($event)">
+            <thead>
+              <tr [style.height.px]="virtualRowHeight">
+                @if (multiSelect) {
+                  <th class="select-cell">
+                    <ng-container *ngTemplateOutlet="selectAllCheckbox"></ng-container>
+                  </th>
+                }
+                @for (column of columns; track column.key) {
+                  <th [mat-sort-header]="column.key" [disabled]="column.sortable === false" [style.width]="column.width">
+                    {{ column.header }}
+                  </th>
+                }
+              </tr>
+            </thead>
+            <tbody>
+              <ng-container *cdkVirtualFor="let row of tableRows; let position = index; trackBy: trackById">
+                @if (isGroupRow(position, row)) {
+                  <tr class="group-row" [style.height.px]="virtualRowHeight" [attr.aria-rowindex]="position + 2">
+                    <td [attr.colspan]="currentDisplayedColumns.length">
+                      <ng-container *ngTemplateOutlet="groupHeader; context: { $implicit: row.groupHeader }"></ng-container>
+                    </td>
+                  </tr>
+                } @else {
+                  <tr class="virtual-row"
+                    [style.height.px]="virtualRowHeight"
+                    [attr.data-row-index]="indexOf(row)"
+                    [attr.aria-rowindex]="position + 2"
+                    [attr.aria-selected]="multiSelect ? selection.isSelected(row) : null"
+                    [attr.tabindex]="indexOf(row) === focusedIndex ? 0 : -1"
+                    [class.selected-row]="multiSelect && selection.isSelected(row)"
+                    [class.changed-row]="changedIds.has(row.id)"
+                    (focus)="focusedIndex = indexOf(row)"
+                    (keydown)="onKeydown($event)"
+                    (click)="onRowClick($event, row, indexOf(row))">
+                    @if (multiSelect) {
+                      <td class="select-cell">
+                        <ng-container *ngTemplateOutlet="rowCheckbox; context: { $implicit: row, index: indexOf(row) }"></ng-container>
+                      </td>
+                    }
+                    @for (column of columns; track column.key) {
+                      <td>
+                        <ng-container *ngTemplateOutlet="cellContent; context: { $implicit: column, row: row }"></ng-container>
+                      </td>
+                    }
+                  </tr>
+                }
+              </ng-container>
+            </tbody>
+          </table>
+        </cdk-virtual-scroll-viewport>
+        @if (dataSource.length < total) {
+          <p class="virtual-status">{{ dataSource.length | number }} of {{ total | number }} rows loaded; more load as you scroll</p>
+        }
+      } @else {
+        <div class="table-wrapper">
+          <table mat-table #table [dataSource]="tableRows" [trackBy]="trackById" class="mat-elevation-2"
+            [class.multi-select-active]="multiSelect"
+            [class.details-enabled]="!multiSelect"
+            role="grid"
+            [attr.aria-multiselectable]="multiSelect || null"
+            matSort
+            [matSortActive]="query.sortField ?? ''"
+            [matSortDirection]="query.sortDirection ?? ''"
+            (matSortChange)="onSort($event)">
+            @if (multiSelect) {
+              <ng-container matColumnDef="select">
+                <th mat-header-cell *matHeaderCellDef>
+                  <ng-container *ngTemplateOutlet="selectAllCheckbox"></ng-container>
+                </th>
+                <td mat-cell *matCellDef="let row">
+                  <ng-container *ngTemplateOutlet="rowCheckbox; context: { $implicit: row, index: indexOf(row) }"></ng-container>
+                </td>
+              </ng-container>
+            }
+
+            @for (column of columns; track column.key) {
+              <ng-container [matColumnDef]="column.key">
+                <th mat-header-cell *matHeaderCellDef mat-sort-header [disabled]="column.sortable === false" [style.width]="column.width">
+                  {{ column.header }}
+                </th>
+                <td mat-cell *matCellDef="let row">
+                  <ng-container *ngTemplateOutlet="cellContent; context: { $implicit: column, row: row }"></ng-container>
+                </td>
+              </ng-container>
+            }
+
+            <ng-container matColumnDef="groupHeader">
+              <td mat-cell *matCellDef="let row" [attr.colspan]="currentDisplayedColumns.length">
+                <ng-container *ngTemplateOutlet="groupHeader; context: { $implicit: row.groupHeader }"></ng-container>
               </td>
             </ng-container>
-          }
 
-          <ng-container matColumnDef="name">
-            <th mat-header-cell *matHeaderCellDef>Name</th>
-            <td mat-cell *matCellDef="let row">{{ row.name }}</td>
-          </ng-container>
-
-          <ng-container matColumnDef="email">
-            <th mat-header-cell *matHeaderCellDef>Email</th>
-            <td mat-cell *matCellDef="let row">{{ row.email }}</td>
-          </ng-container>
-
-          <ng-container matColumnDef="status">
-            <th mat-header-cell *matHeaderCellDef>Status</th>
-            <td mat-cell *matCellDef="let row">
-              <mat-chip 
-                [ngClass]="'status-' + row.status"
-                class="status-chip">
-                {{ row.status | titlecase }}
-              </mat-chip>
-            </td>
-          </ng-container>
-
-          <ng-container matColumnDef="type">
-            <th mat-header-cell *matHeaderCellDef>Type</th>
-            <td mat-cell *matCellDef="let row">
-              <mat-chip class="type-chip">
-                {{ row.type | titlecase }}
-              </mat-chip>
-            </td>
-          </ng-container>
-
-          <ng-container matColumnDef="createdAt">
-            <th mat-header-cell *matHeaderCellDef>Created</th>
-            <td mat-cell *matCellDef="let row">{{ row.createdAt | date:'short' }}</td>
-          </ng-container>
-
-          <!-- User-specific columns -->
-          <ng-container matColumnDef="department">
-            <th mat-header-cell *matHeaderCellDef>Department</th>
-            <td mat-cell *matCellDef="let row">{{ row.department }}</td>
-          </ng-container>
-
-          <ng-container matColumnDef="lastLogin">
-            <th mat-header-cell *matHeaderCellDef>Last Login</th>
-            <td mat-cell *matCellDef="let row">{{ row.lastLogin | date:'short' }}</td>
-          </ng-container>
-
-          <!-- Order-specific columns -->
-          <ng-container matColumnDef="amount">
-            <th mat-header-cell *matHeaderCellDef>Amount</th>
-            <td mat-cell *matCellDef="let row">{{ row.amount | currency }}</td>
-          </ng-container>
-
-          <ng-container matColumnDef="orderDate">
-            <th mat-header-cell *matHeaderCellDef>Order Date</th>
-            <td mat-cell *matCellDef="let row">{{ row.orderDate | date:'short' }}</td>
-          </ng-container>
-
-          <tr mat-header-row *matHeaderRowDef="currentDisplayedColumns"></tr>
-          <tr mat-row *matRowDef="let row; columns: currentDisplayedColumns;"></tr>
-        </table>
-      </div>
+            <tr mat-header-row *matHeaderRowDef="currentDisplayedColumns"></tr>
+            <tr mat-row *matRowDef="let row; columns: ['groupHeader']; when: isGroupRow" class="group-row"></tr>
+            <tr mat-row *matRowDef="let row; columns: currentDisplayedColumns;"
+              [attr.data-row-index]="indexOf(row)"
+              [attr.aria-selected]="multiSelect ? selection.isSelected(row) : null"
+              [attr.tabindex]="indexOf(row) === focusedIndex ? 0 : -1"
+              [class.selected-row]="multiSelect && selection.isSelected(row)"
+              [class.changed-row]="changedIds.has(row.id)"
+              (focus)="focusedIndex = indexOf(row)"
+              (keydown)="onKeydown($event)"
+              (click)="onRowClick($event, row, indexOf(row))"></tr>
+          </table>
+          <mat-paginator
+            [length]="total"
+            [pageIndex]="query.page"
+            [pageSize]="query.pageSize"
+            [pageSizeOptions]="pageSizeOptions"
+            (page)="onPage($event)">
+          </mat-paginator>
+        </div>
+      }
 
-      @if (!dataSource || dataSource.length === 0) {
+      @if (!dataSource.length) {
         <div class="no-data">
           <mat-icon>inbox</mat-icon>
           <p>No data available</p>
@@ -168,61 +408,752 @@ import { trigger, state, style, animate, transition } from '@angular/animations'
 export class DataTableComponent<T extends DataItem> implements OnInit, OnChanges {
   @Input() dataSource: T[] = [];
   @Input() title = 'Data Table';
-  @Input() actionContext: 'users' | 'orders' = 'users';
-  @Input() displayedColumns: string[] = ['name', 'email', 'status', 'createdAt'];
+  // Registry key used to look up the bulk actions for this table
+  @Input() actionContext = '';
+  @Input() columns: ColumnDef<T>[] = [];
+  // Number of rows matching the current filters across all pages
+  @Input() total = 0;
+  @Input() query: TableQuery = DEFAULT_TABLE_QUERY;
+  @Input() statusOptions: string[] = [];
+  // Rows whose status is shown optimistically until the server confirms it
+  @Input() pendingIds: ReadonlySet<string> = new Set();
+  // Rows another client just changed, highlighted briefly
+  @Input() changedIds: ReadonlySet<string> = new Set();
+  // Opt back into clearing the selection whenever the data is refreshed
+  @Input() clearSelectionOnDataChange = false;
+  // Mirror the query, multi select mode and selection in the URL query params
+  @Input() syncWithUrl = false;
+  // Render only the rows in view instead of paging, for tables of 10k+ rows.
+  // Rows are expected from the first page on; `loadMore` asks for the next
+  // ones as the end of the loaded rows comes into view
+  @Input() virtualScroll = false;
+  @Input() virtualRowHeight = 48;
+  @Input() virtualViewportHeight = 600;
+  // Offered in the "Group by" select; group counts and aggregates come from the server and cover every page
+  @Input() groupings: RowGrouping<T>[] = [];
+  // `appColumnCell` templates a wrapping page was given, e.g. `EntityTableComponent`;
+  // templates declared inside this table take precedence
+  @Input() columnCells?: QueryList<ColumnCellDirective<T>>;
+  @Output() queryChange = new EventEmitter<TableQuery>();
+  @Output() loadMore = new EventEmitter<void>();
 
   multiSelect = false;
   selection = new CustomSelectionModel<T>(true, []);
+  // Loaded rows that are selected, including ones covered by "all matching"
+  selectedRows: T[] = [];
+  // Number of loaded rows that are selected, kept up to date on changes rather than counted per render
+  private selectedOnPage = 0;
   currentDisplayedColumns: string[] = [];
+  // Fields saved selection rules can filter on
+  ruleFields: RuleField[] = [];
+
+  grouping: RowGrouping<T> | null = null;
+  private groups: RowGroup<T>[] = [];
+  // Count and totals of each group across pages, by group key
+  groupSummaries = signal<ReadonlyMap<string, RowGroupSummary>>(new Map());
+  private summaryRequest = 0;
+  // Every row of a group, fetched when the group is selected, by group key
+  private groupMembers = new Map<string, T[]>();
+  // Groups whose rows are being fetched to select or deselect them
+  togglingGroups = signal<ReadonlySet<string>>(new Set());
+  // Groups whose rows are hidden, by group key
+  collapsedGroups = new Set<string>();
+  // What the table renders: group headers followed by the rows of expanded groups
+  tableRows: TableRow<T>[] = [];
+  // Rows in display order; row indexes (focus, shift ranges) refer to these
+  private visibleRows: T[] = [];
+  private rowIndexes = new Map<string, number>();
+  // Number of selected rows in each group, by group key
+  private selectedInGroups = new Map<string, number>();
+
+  pageSizeOptions = [5, 10, 25, 50];
+  searchTerms = new Subject<string>();
+  // Ids that should survive the next data refresh instead of being cleared
+  private retainedIds = new Set<string>();
+  // Incremented per `retainSelection` call so a slower fetch can't override a newer one
+  private retainRequest = 0;
+  // Rows selected right before the last clear, so an undo can reselect them
+  private lastClearedRows: T[] = [];
+  // Set while waiting for the page or sort change this table requested
+  private navigating = false;
+  exporting = signal(false);
+  importing = signal(false);
+  restoringSelection = signal(false);
+  // Larger id selections are left out of the URL to keep it shareable
+  maxUrlSelection = 100;
+  // Selection read from the URL, applied once the table's data arrives
+  private urlSelection: string[] | 'all' | null = null;
+  private router = inject(Router);
+  private route = inject(ActivatedRoute);
+  private snackBar = inject(MatSnackBar);
+  private dialog = inject(MatDialog);
+  private dataService = inject(DataService);
+  private exportService = inject(ExportService);
+  private savedSelections = inject(SavedSelectionService);
+  private locale = inject(LOCALE_ID);
+  @ContentChildren(ColumnCellDirective) private cellTemplates?: QueryList<ColumnCellDirective<T>>;
+
+  // Row that keyboard navigation starts from and that holds the tab stop
+  focusedIndex = 0;
+  // Row index that shift-click ranges are anchored on
+  private anchorIndex: number | null = null;
+  @ViewChild('table', { read: ElementRef }) private tableElement?: ElementRef<HTMLElement>;
+  @ViewChild(CdkVirtualScrollViewport) private viewport?: CdkVirtualScrollViewport;
+  private injector = inject(Injector);
+
+  constructor() {
+    const destroyRef = inject(DestroyRef);
+    this.selection.changed
+      .pipe(takeUntilDestroyed(destroyRef))
+      .subscribe(() => {
+        this.updateSelectedRows();
+        this.writeUrlState();
+      });
+    this.searchTerms
+      .pipe(debounceTime(300), distinctUntilChanged(), takeUntilDestroyed(destroyRef))
+      .subscribe(term => this.setFilter('name', 'contains', term.trim()));
+  }
 
   ngOnInit() {
-    this.currentDisplayedColumns = [...this.displayedColumns];
+    if (this.syncWithUrl) {
+      // The page reads the query from the same params when it creates it
+      const state = tableStateFromParams(this.route.snapshot.queryParamMap);
+      this.multiSelect = state.multiSelect;
+      this.urlSelection = state.selection.length ? state.selection : null;
+    }
+    this.updateDisplayedColumns();
   }
 
   ngOnChanges(changes: SimpleChanges) {
-    if (changes['dataSource'] && changes['dataSource'].currentValue) {
-      // Clear selection when data changes to avoid stale selections
+    if (changes['columns']) {
+      this.ruleFields = this.columns.map(column => ({ key: column.key, label: column.header }));
+    }
+    if (changes['columns'] && !changes['columns'].firstChange) {
+      this.updateDisplayedColumns();
+    }
+    if (changes['groupings'] && this.grouping) {
+      this.grouping = this.groupings.find(grouping => grouping.key === this.grouping?.key) ?? null;
+      this.groupMembers.clear();
+      this.updateRows();
+      this.updateSelectedRows();
+      this.loadGroupSummaries();
+    }
+
+    const queryChange = changes['query'];
+    if (queryChange && !queryChange.firstChange && !sameFilters(queryChange.previousValue, queryChange.currentValue)) {
+      // Selections made against a different result set no longer apply
       this.selection.clear();
+      this.groupMembers.clear();
+    }
+    if (queryChange && !queryChange.firstChange) {
+      this.writeUrlState();
+    }
+
+    if (changes['dataSource'] && changes['dataSource'].currentValue) {
+      if (this.dataSource.length) {
+        this.restoreUrlSelection();
+      }
+      this.updateRows();
+      if (this.navigating) {
+        // Paging and sorting keep the selection across pages
+        this.navigating = false;
+        this.updateSelectedRows();
+        return;
+      }
+      // Refreshed rows can move between groups
+      this.loadGroupSummaries();
+      if (this.clearSelectionOnDataChange) {
+        this.clearKeepingRetained();
+      } else {
+        const dropped = this.selection.reconcile(changes['dataSource'].previousValue ?? [], this.dataSource);
+        if (dropped) {
+          this.snackBar.open(
+            `${dropped} selected row${dropped === 1 ? ' is' : 's are'} no longer available and ${dropped === 1 ? 'was' : 'were'} deselected.`,
+            'Close',
+            { duration: 4000, horizontalPosition: 'center', verticalPosition: 'bottom' }
+          );
+        }
+      }
+      this.retainedIds.clear();
+      this.updateSelectedRows();
+    }
+  }
+
+  // Clear selection when data changes to avoid stale selections, except
+  // for rows a bulk action asked to keep (e.g. failures to retry)
+  private clearKeepingRetained() {
+    const freshRows = new Map(this.dataSource.map(row => [row.id, row]));
+    const retainedRows = this.selection.selected
+      .filter(row => this.retainedIds.has(row.id))
+      .map(row => freshRows.get(row.id) ?? row);
+    this.selection.clear();
+    if (retainedRows.length) {
+      this.selection.select(...retainedRows);
     }
   }
 
   toggleMultiSelect() {
     this.multiSelect = !this.multiSelect;
-    this.currentDisplayedColumns = this.multiSelect
-      ? ['select', ...this.displayedColumns]
-      : [...this.displayedColumns];
+    this.updateDisplayedColumns();
 
     if (!this.multiSelect) {
+      this.urlSelection = null;
+      this.selection.clear();
+    }
+    this.writeUrlState();
+  }
+
+  private writeUrlState() {
+    if (!this.syncWithUrl) {
+      return;
+    }
+    this.router.navigate([], {
+      relativeTo: this.route,
+      queryParams: tableStateToParams({ query: this.query, multiSelect: this.multiSelect, selection: this.urlSelectionValue() }),
+      replaceUrl: true
+    });
+  }
+
+  // "All matching" with exclusions and very large selections aren't kept in the URL
+  private urlSelectionValue(): string[] | 'all' {
+    if (this.urlSelection) {
+      // Not restored yet; keep what the URL asked for
+      return this.urlSelection;
+    }
+    const scope = this.selection.scope;
+    if (scope.kind === 'allMatching') {
+      return scope.excludedIds.length ? [] : 'all';
+    }
+    return scope.ids.length <= this.maxUrlSelection ? scope.ids : [];
+  }
+
+  private async restoreUrlSelection() {
+    const selection = this.urlSelection;
+    if (!selection || this.restoringSelection()) {
+      return;
+    }
+    if (selection === 'all') {
+      this.urlSelection = null;
+      this.selectAllMatching();
+      return;
+    }
+
+    this.restoringSelection.set(true);
+    try {
+      const rows = await this.dataService.fetchItems<T>(this.actionContext, { kind: 'ids', ids: selection });
+      this.urlSelection = null;
+      if (rows.length) {
+        this.selection.select(...rows);
+      }
+      if (rows.length < selection.length) {
+        const missing = selection.length - rows.length;
+        this.showMessage(`${missing} selected row${missing === 1 ? ' from the link no longer exists' : 's from the link no longer exist'}.`);
+      }
+    } catch (error) {
+      console.error('Could not restore the selection from the URL:', error);
+      this.urlSelection = null;
+    } finally {
+      this.restoringSelection.set(false);
+      this.writeUrlState();
+    }
+  }
+
+  cellValue(column: ColumnDef<T>, row: T): unknown {
+    return columnValue(column, row);
+  }
+
+  displayValue(column: ColumnDef<T>, row: T): string {
+    return formatColumnValue(column, row, this.locale);
+  }
+
+  cellTemplate(column: ColumnDef<T>): TemplateRef<ColumnCellContext<T>> | null {
+    return column.cellTemplate
+      ?? this.cellTemplates?.find(cell => cell.columnKey === column.key)?.templateRef
+      ?? this.columnCells?.find(cell => cell.columnKey === column.key)?.templateRef
+      ?? null;
+  }
+
+  /** Replaces the selection with the rows a saved selection covers now. */
+  async applySavedSelection(saved: SavedSelection) {
+    try {
+      const rows = await this.savedSelections.evaluate<T>(saved);
       this.selection.clear();
+      if (rows.length) {
+        this.selection.select(...rows);
+      }
+      const missing = saved.kind === 'static' ? saved.ids.length - rows.length : 0;
+      this.showMessage(`Selected ${rows.length} row${rows.length === 1 ? '' : 's'} from "${saved.name}"`
+        + (missing ? `; ${missing} no longer exist${missing === 1 ? 's' : ''}.` : '.'));
+    } catch (error) {
+      console.error('Applying the saved selection failed:', error);
+      this.showMessage(`Could not apply "${saved.name}".`);
     }
   }
 
+  private updateDisplayedColumns() {
+    const keys = this.columns.map(column => column.key);
+    this.currentDisplayedColumns = this.multiSelect ? ['select', ...keys] : keys;
+  }
+
   checkRow(row: T) {
     this.selection.toggle(row);
   }
 
+  onRowClick(event: MouseEvent, row: T, index: number) {
+    // The checkbox sits inside the row; handle its click once
+    event.stopPropagation();
+    if (!this.multiSelect) {
+      this.openDetails(row);
+      return;
+    }
+    this.focusedIndex = index;
+    if (event.shiftKey && this.anchorIndex !== null) {
+      this.setRange(this.anchorIndex, index, !this.selection.isSelected(row));
+    } else {
+      this.checkRow(row);
+      this.anchorIndex = index;
+    }
+  }
+
+  onKeydown(event: KeyboardEvent) {
+    if (!this.visibleRows.length) {
+      return;
+    }
+    if (!this.multiSelect) {
+      if (event.key === 'Enter') {
+        this.openDetails(this.visibleRows[this.focusedIndex]);
+        event.preventDefault();
+      }
+      return;
+    }
+
+    const row = this.visibleRows[this.focusedIndex];
+    switch (event.key) {
+      case 'ArrowDown':
+      case 'ArrowUp': {
+        const next = Math.min(Math.max(this.focusedIndex + (event.key === 'ArrowDown' ? 1 : -1), 0), this.visibleRows.length - 1);
+        if (event.shiftKey) {
+          this.anchorIndex ??= this.focusedIndex;
+          this.setRange(this.anchorIndex, next, true);
+        }
+        this.focusRow(next);
+        break;
+      }
+      case ' ':
+        this.checkRow(row);
+        this.anchorIndex = this.focusedIndex;
+        break;
+      case 'a':
+      case 'A':
+        if (!event.ctrlKey && !event.metaKey) {
+          return;
+        }
+        this.toggleAllOnPage(true);
+        break;
+      case 'Escape':
+        this.clearSelection();
+        break;
+      default:
+        return;
+    }
+    event.preventDefault();
+  }
+
+  // Opens the row's fields, timeline and single-item actions in a side drawer
+  openDetails(row: T) {
+    this.dialog.open<RowDetailDrawerComponent<T>, RowDetailDrawerData<T>>(RowDetailDrawerComponent, {
+      data: { item: row, columns: this.columns, actionContext: this.actionContext },
+      position: { top: '0', right: '0' },
+      width: '440px',
+      maxWidth: '100vw',
+      height: '100vh',
+      panelClass: 'side-drawer-panel'
+    });
+  }
+
+  // Sets every row between the two indexes (inclusive) to the given state
+  private setRange(from: number, to: number, selected: boolean) {
+    const rows = this.visibleRows.slice(Math.min(from, to), Math.max(from, to) + 1);
+    if (selected) {
+      this.selection.select(...rows);
+    } else {
+      this.selection.deselect(...rows);
+    }
+  }
+
+  private focusRow(index: number) {
+    this.focusedIndex = index;
+    const row = this.rowElement(index);
+    if (row || !this.viewport) {
+      row?.focus();
+      return;
+    }
+    // Virtual scrolling only renders the rows near the viewport
+    this.viewport.scrollToIndex(this.tableRows.indexOf(this.visibleRows[index]));
+    afterNextRender(() => this.rowElement(index)?.focus(), { injector: this.injector });
+  }
+
+  private rowElement(index: number): HTMLElement | null {
+    return this.tableElement?.nativeElement.querySelector<HTMLElement>(`tr[data-row-index="${index}"]`) ?? null;
+  }
+
+  // Asks for more rows once fewer than a viewport's worth are left below the view
+  onScrolledIndex(firstInView: number) {
+    const rowsInView = Math.ceil(this.virtualViewportHeight / this.virtualRowHeight);
+    if (this.dataSource.length < this.total && firstInView + 2 * rowsInView >= this.tableRows.length) {
+      this.loadMore.emit();
+    }
+  }
+
+  trackById(_index: number, row: TableRow<T>): string {
+    return row.id;
+  }
+
+  isGroupRow(_index: number, row: TableRow<T>): row is GroupHeaderRow<T> {
+    return 'groupHeader' in row;
+  }
+
+  indexOf(row: T): number {
+    return this.rowIndexes.get(row.id) ?? -1;
+  }
+
+  setGrouping(key: string) {
+    this.grouping = this.groupings.find(grouping => grouping.key === key) ?? null;
+    this.collapsedGroups.clear();
+    this.groupMembers.clear();
+    this.groupSummaries.set(new Map());
+    this.updateRows();
+    this.updateSelectedRows();
+    this.loadGroupSummaries();
+  }
+
+  toggleGroupCollapsed(group: RowGroup<T>) {
+    if (!this.collapsedGroups.delete(group.key)) {
+      this.collapsedGroups.add(group.key);
+    }
+    this.updateRows();
+  }
+
+  groupHeading(group: RowGroup<T>): string {
+    return this.grouping?.heading?.(group.key, this.locale) ?? group.key;
+  }
+
+  aggregateValue(aggregate: GroupAggregate<T>, total: number): string {
+    return aggregate.format?.(total, this.locale) ?? String(total);
+  }
+
+  // Rows in the group across pages; the loaded rows until the server's count arrives
+  groupCount(group: RowGroup<T>): number {
+    return this.groupSummaries().get(group.key)?.count ?? group.rows.length;
+  }
+
+  groupTotal(group: RowGroup<T>, aggregateIndex: number): number {
+    return this.groupSummaries().get(group.key)?.totals[aggregateIndex] ?? group.totals[aggregateIndex];
+  }
+
+  isGroupSelected(group: RowGroup<T>): boolean {
+    const count = this.groupCount(group);
+    return count > 0 && this.selectedInGroups.get(group.key) === count;
+  }
+
+  isGroupIndeterminate(group: RowGroup<T>): boolean {
+    return (this.selectedInGroups.get(group.key) ?? 0) > 0 && !this.isGroupSelected(group);
+  }
+
+  // Selects or deselects every row in the group, including ones on other pages
+  async toggleGroup(group: RowGroup<T>, isChecked: boolean) {
+    this.togglingGroups.update(keys => new Set(keys).add(group.key));
+    try {
+      const members = await this.fetchGroupMembers(group);
+      if (!members.length) {
+        return;
+      }
+      if (isChecked) {
+        this.selection.select(...members);
+      } else {
+        this.selection.deselect(...members);
+      }
+    } catch (error) {
+      console.error('Could not load the rows of the group:', error);
+      this.showMessage(`Could not ${isChecked ? 'select' : 'deselect'} the rows in ${this.groupHeading(group)}.`);
+    } finally {
+      this.togglingGroups.update(keys => new Set([...keys].filter(key => key !== group.key)));
+    }
+  }
+
+  // Resolves the group through the server; empty when the grouping or filters changed meanwhile
+  private async fetchGroupMembers(group: RowGroup<T>): Promise<T[]> {
+    const grouping = this.grouping;
+    const cached = this.groupMembers.get(group.key);
+    if (!grouping || cached) {
+      return cached ?? [];
+    }
+    const query = this.query;
+    const members = await this.dataService.fetchItems<T>(this.actionContext, {
+      kind: 'allMatching',
+      query: { filters: [...query.filters, ...groupFilters(grouping, group.key)] },
+      total: this.groupCount(group),
+      excludedIds: []
+    });
+    if (grouping !== this.grouping || !sameFilters(query, this.query)) {
+      return [];
+    }
+    this.groupMembers.set(group.key, members);
+    return members;
+  }
+
+  private async loadGroupSummaries() {
+    const request = ++this.summaryRequest;
+    const grouping = this.grouping;
+    if (!grouping) {
+      this.groupSummaries.set(new Map());
+      return;
+    }
+    try {
+      const summaries = await this.dataService.groupSummaries(this.actionContext, { filters: this.query.filters }, grouping);
+      if (request !== this.summaryRequest) {
+        return;
+      }
+      const byKey = new Map(summaries.map(summary => [summary.key, summary]));
+      // Rows moved in or out of a group since it was fetched; fetch it again when it's next toggled
+      this.groupMembers.forEach((members, key) => {
+        if (byKey.get(key)?.count !== members.length) {
+          this.groupMembers.delete(key);
+        }
+      });
+      this.groupSummaries.set(byKey);
+      this.updateSelectedRows();
+    } catch (error) {
+      console.error('Could not load the group counts:', error);
+    }
+  }
+
+  // Rebuilds the rendered rows after the data, grouping or collapsed groups change
+  private updateRows() {
+    this.groups = this.grouping ? groupRows(this.dataSource, this.grouping) : [];
+    if (this.grouping) {
+      this.tableRows = [];
+      this.visibleRows = [];
+      for (const group of this.groups) {
+        this.tableRows.push({ id: `group:${group.key}`, groupHeader: group });
+        if (!this.collapsedGroups.has(group.key)) {
+          this.tableRows.push(...group.rows);
+          this.visibleRows.push(...group.rows);
+        }
+      }
+    } else {
+      this.tableRows = this.dataSource;
+      this.visibleRows = this.dataSource;
+    }
+    this.rowIndexes = new Map(this.visibleRows.map((row, index) => [row.id, index]));
+    this.anchorIndex = null;
+    this.focusedIndex = Math.min(this.focusedIndex, Math.max(this.visibleRows.length - 1, 0));
+  }
+
   isAllSelected(): boolean {
-    const numSelected = this.selection.selected.length;
-    const numRows = this.dataSource?.length || 0;
-    return numSelected === numRows && numRows > 0;
+    return this.dataSource.length > 0 && this.selectedOnPage === this.dataSource.length;
   }
 
   isIndeterminate(): boolean {
-    const numSelected = this.selection.selected.length;
-    const numRows = this.dataSource?.length || 0;
-    return numSelected > 0 && numSelected < numRows;
+    return this.selectedOnPage > 0 && !this.isAllSelected();
   }
 
   toggleAllOnPage(isChecked: boolean) {
     if (isChecked) {
-      this.dataSource?.forEach(row => this.selection.select(row));
+      this.selection.select(...this.dataSource);
     } else {
-      this.dataSource?.forEach(row => this.selection.deselect(row));
+      this.selection.deselect(...this.dataSource);
     }
   }
 
+  selectedCount(): number {
+    return scopeCount(this.selection.scope);
+  }
+
+  showSelectAllBanner(): boolean {
+    return this.selection.isAllMatching
+      || (this.isAllSelected() && this.total > this.dataSource.length);
+  }
+
+  selectAllMatching() {
+    this.selection.selectAllMatching({ filters: this.query.filters }, this.total);
+  }
+
+  onPage(event: PageEvent) {
+    this.updateQuery({ page: event.pageIndex, pageSize: event.pageSize }, true);
+  }
+
+  onSort(sort: Sort) {
+    this.updateQuery({
+      sortField: sort.direction ? sort.active : undefined,
+      sortDirection: sort.direction || undefined,
+      page: 0
+    }, true);
+  }
+
+  // Filters without a control in the filter bar, e.g. from a link to a row
+  extraFilters(): DataFilter[] {
+    return this.query.filters.filter(filter => filter.field !== 'name' && filter.field !== 'status');
+  }
+
+  filterValue(field: string): string | number {
+    return this.query.filters.find(filter => filter.field === field)?.value ?? '';
+  }
+
+  setFilter(field: string, operator: FilterOperator, value: string | number) {
+    const filters: DataFilter[] = this.query.filters.filter(filter => filter.field !== field);
+    if (value !== '') {
+      filters.push({ field, operator, value });
+    }
+    if (!sameFilters(this.query, { filters })) {
+      this.updateQuery({ filters, page: 0 }, false);
+    }
+  }
+
+  private updateQuery(changes: Partial<TableQuery>, navigating: boolean) {
+    this.navigating = navigating;
+    this.queryChange.emit({ ...this.query, ...changes });
+  }
+
+  private updateSelectedRows() {
+    const selectedOnPage = this.dataSource.filter(row => this.selection.isSelected(row));
+    this.selectedOnPage = selectedOnPage.length;
+    this.selectedRows = this.selection.isAllMatching ? selectedOnPage : this.selection.selected;
+    this.selectedInGroups = new Map(this.groups.map(group => [group.key, this.selectedInGroup(group)]));
+  }
+
+  // Counts the group's rows across pages once they were fetched, and its loaded rows until then
+  private selectedInGroup(group: RowGroup<T>): number {
+    const members = this.groupMembers.get(group.key);
+    if (members) {
+      return members.filter(row => this.selection.isSelected(row)).length;
+    }
+    const selected = group.rows.filter(row => this.selection.isSelected(row)).length;
+    // "All matching" covers the unloaded rows too, unless they were excluded
+    return this.selection.isAllMatching ? this.groupCount(group) - (group.rows.length - selected) : selected;
+  }
+
   clearSelection() {
+    this.lastClearedRows = this.selection.selected;
     this.selection.clear();
   }
 
-}
\ No newline at end of file
+  async exportRows(rows: 'selection' | 'filtered', format: ExportFormat) {
+    const scope: SelectionScope = rows === 'selection'
+      ? this.selection.scope
+      : { kind: 'allMatching', query: { filters: this.query.filters }, total: this.total, excludedIds: [] };
+    this.exporting.set(true);
+    try {
+      const count = await this.exportService.exportRows(this.actionContext, scope, this.columns, format);
+      this.showMessage(`Exported ${count} row${count === 1 ? '' : 's'}.`);
+    } catch (error) {
+      console.error('Export failed:', error);
+      this.showMessage('Could not export the rows.');
+    } finally {
+      this.exporting.set(false);
+    }
+  }
+
+  /**
+   * Selects the rows whose ids are listed in a CSV file, turning on multi
+   * select if needed, and reports ids that don't match any row.
+   */
+  async importIds(input: HTMLInputElement) {
+    const file = input.files?.[0];
+    // Allow picking the same file again
+    input.value = '';
+    if (!file) {
+      return;
+    }
+
+    this.importing.set(true);
+    try {
+      const ids = idsFromCsv(await file.text());
+      if (!ids.length) {
+        this.showMessage(`No ids found in ${file.name}.`);
+        return;
+      }
+      const found = await this.dataService.fetchItems<T>(this.actionContext, { kind: 'ids', ids });
+      const foundIds = new Set(found.map(item => item.id));
+      const missingIds = ids.filter(id => !foundIds.has(id));
+
+      if (found.length) {
+        if (!this.multiSelect) {
+          this.toggleMultiSelect();
+        }
+        this.selection.select(...found);
+      }
+      this.showImportResult(file.name, found, missingIds);
+    } catch (error) {
+      console.error('Import failed:', error);
+      this.showMessage(`Could not import ids from ${file.name}.`);
+    } finally {
+      this.importing.set(false);
+    }
+  }
+
+  private showImportResult(fileName: string, found: T[], missingIds: string[]) {
+    const summary = `Selected ${found.length} row${found.length === 1 ? '' : 's'}`
+      + (missingIds.length ? `; ${missingIds.length} id${missingIds.length === 1 ? '' : 's'} not found.` : '.');
+    if (!missingIds.length) {
+      this.showMessage(summary);
+      return;
+    }
+
+    const snackBarRef = this.snackBar.open(summary, 'Details', {
+      duration: 8000,
+      horizontalPosition: 'center',
+      verticalPosition: 'bottom',
+      panelClass: ['warning-snackbar']
+    });
+    snackBarRef.onAction().subscribe(() => {
+      this.dialog.open<BulkResultDialogComponent, BulkResultDialogData>(BulkResultDialogComponent, {
+        width: '480px',
+        data: {
+          title: `Import from ${fileName}`,
+          summary,
+          report: {
+            results: [
+              ...found.map(item => ({ id: item.id, name: item.name, outcome: 'succeeded' as const })),
+              ...missingIds.map(id => ({ id, name: id, outcome: 'skipped' as const, reason: 'No matching row' }))
+            ]
+          }
+        }
+      });
+    });
+  }
+
+  private showMessage(message: string) {
+    this.snackBar.open(message, 'Close', { duration: 4000, horizontalPosition: 'center', verticalPosition: 'bottom' });
+  }
+
+  /**
+   * Replaces the selection with the given rows, e.g. failures to retry or
+   * rows an undo restored. Rows that aren't loaded, as is common after an
+   * "all matching" run, are fetched by id and added once they arrive.
+   */
+  async retainSelection(ids: string[]) {
+    const request = ++this.retainRequest;
+    this.retainedIds = new Set(ids);
+    const knownRows = new Map<string, T>();
+    [...this.lastClearedRows, ...this.selection.selected, ...this.dataSource]
+      .forEach(row => knownRows.set(row.id, row));
+    this.selection.clear();
+    this.selection.select(...ids.flatMap(id => knownRows.get(id) ?? []));
+
+    const missingIds = ids.filter(id => !knownRows.has(id));
+    if (!missingIds.length) {
+      return;
+    }
+    try {
+      const fetched = await this.dataService.fetchItems<T>(this.actionContext, { kind: 'ids', ids: missingIds });
+      // A later action or an "all matching" selection took over meanwhile
+      if (request === this.retainRequest && !this.selection.isAllMatching) {
+        this.selection.select(...fetched);
+      }
+    } catch (error) {
+      console.error('Could not reselect rows that are not loaded:', error);
+      this.showMessage(`Could not reselect ${missingIds.length} row${missingIds.length === 1 ? '' : 's'} that ${missingIds.length === 1 ? 'is' : 'are'} not loaded.`);
+    }
+  }
+}
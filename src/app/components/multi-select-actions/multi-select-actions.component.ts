@@ -1,19 +1,46 @@
-import { Component, Input, Output, EventEmitter, OnInit } from '@angular/core';
+import { Component, Input, Output, EventEmitter, OnInit, OnChanges, signal } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { MatButtonModule } from '@angular/material/button';
 import { MatIconModule } from '@angular/material/icon';
 import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
+import { MatTooltipModule } from '@angular/material/tooltip';
+import { MatMenuModule } from '@angular/material/menu';
+import { MatDividerModule } from '@angular/material/divider';
 import { MatSnackBar } from '@angular/material/snack-bar';
-import { DataItem, User, Order } from '../../interfaces/data-item.interface';
-import { DataService } from '../../services/data.service';
-
-export interface Action {
-  type: string;
-  action: (type: string) => void;
-  label: string;
-  icon: string;
-  processing: boolean;
-  width: string;
+import { MatDialog } from '@angular/material/dialog';
+import { firstValueFrom, from, lastValueFrom } from 'rxjs';
+import { DataItem } from '../../interfaces/data-item.interface';
+import { BulkActionDefinition, BulkActionReport } from '../../interfaces/bulk-action.interface';
+import { BulkJob } from '../../interfaces/bulk-job.interface';
+import { ActionParams } from '../../interfaces/action-params.interface';
+import { DataFilter } from '../../interfaces/data-query.interface';
+import { ColumnDef } from '../../interfaces/column-def.interface';
+import { RuleField, SavedSelection } from '../../interfaces/saved-selection.interface';
+import { ActionRegistryService } from '../../services/action-registry.service';
+import { BulkJobService } from '../../services/bulk-job.service';
+import { PermissionDeniedError, PermissionService } from '../../services/permission.service';
+import { SavedSelectionService } from '../../services/saved-selection.service';
+import { LiveUpdatesService } from '../../services/live-updates.service';
+import { EntityRegistryService } from '../../services/entity-registry.service';
+import { SelectionAggregate } from '../../interfaces/selection-summary.interface';
+import { SelectionScope, scopeCount } from '../../models/selection-scope.model';
+import { countOutcomes, resultsWithOutcome, summarizeReport } from '../../models/bulk-action-report.model';
+import { describeRule } from '../../models/saved-selection.model';
+import { BulkResultDialogComponent, BulkResultDialogData } from '../bulk-result-dialog/bulk-result-dialog.component';
+import { ConfirmActionDialogComponent, ConfirmActionDialogData } from '../confirm-action-dialog/confirm-action-dialog.component';
+import { ActionParamsDialogComponent, ActionParamsDialogData } from '../action-params-dialog/action-params-dialog.component';
+import { SaveSelectionDialogComponent, SaveSelectionDialogData, SaveSelectionDialogResult } from '../save-selection-dialog/save-selection-dialog.component';
+import { SelectionSummaryComponent } from '../selection-summary/selection-summary.component';
+
+interface SelectedStatus<T extends DataItem> {
+  status: T['status'];
+  // When the item was selected, or when its change was acknowledged
+  since: Date;
+}
+
+interface ChangedItem<T extends DataItem> {
+  item: T;
+  previousStatus: T['status'];
 }
 
 @Component({
@@ -23,110 +50,299 @@ export interface Action {
     CommonModule,
     MatButtonModule,
     MatIconModule,
-    MatProgressSpinnerModule
+    MatProgressSpinnerModule,
+    MatTooltipModule,
+    MatMenuModule,
+    MatDividerModule,
+    SelectionSummaryComponent
   ],
   template: `
-    <div class="multi-select-container">
+    <div class="multi-select-container" [class.compact]="compact">
       <div class="action-buttons">
-        @for (action of actions; track action.type) {
-          @if (!action.processing) {
-            <button class="action-button" mat-stroked-button color="primary" (click)="action.action(action.type)" [disabled]="!selectedItems.length" [ngStyle]="{'width': action.width}">
-              <span>{{ action.label }}</span>
-              <mat-icon iconPositionEnd *ngIf="action.icon">{{ action.icon }}</mat-icon>
-            </button>
+        @for (action of visibleActions(); track action.type) {
+          @if (!isProcessing(action.type)) {
+            <span class="action-button-wrapper" [matTooltip]="permissionHint(action) || applicabilityHint(action)">
+              <button class="action-button" mat-stroked-button color="primary" (click)="runAction(action)" [disabled]="!isAllowed(action) || !applicableCount(action)" [ngStyle]="{'width': action.width}">
+                <span>{{ action.label }}</span>
+                @if (applicableCount(action) < selectedCount) {
+                  <span class="applicable-count">{{ applicableCount(action) }}/{{ selectedCount }}</span>
+                }
+                <mat-icon iconPositionEnd *ngIf="action.icon">{{ action.icon }}</mat-icon>
+              </button>
+            </span>
           } 
           @else {
             <button class="action-button" mat-raised-button color="primary" [disabled]="true" [ngStyle]="{'width': action.width}">
               <mat-spinner diameter="20"></mat-spinner>
+              @if (jobFor(action.type); as job) {
+                <span class="job-progress">{{ job.processed | number }} / {{ job.total | number }}</span>
+              }
             </button>
           }
         }
       </div>
-      <div class="selected-count">
-        <p>{{ selectedItems.length }} selected</p>
-        <button mat-icon-button type="button" aria-label="Clear selected items" matTooltip="Clear selected items" (click)="clearSelectedItems()"><mat-icon>clear_all</mat-icon></button>
-      </div>
+      @if (!compact) {
+        <div class="selected-count">
+          <app-selection-summary
+            [items]="selectedItems"
+            [count]="selectedCount"
+            [aggregates]="summary"
+            (deselect)="deselectItem.emit($event)"
+          ></app-selection-summary>
+          <button mat-icon-button type="button" aria-label="Saved selections" matTooltip="Saved selections" [matMenuTriggerFor]="savedMenu"><mat-icon>bookmarks</mat-icon></button>
+          <mat-menu #savedMenu="matMenu">
+            @for (saved of savedSelections(); track saved.id) {
+              <button mat-menu-item [matTooltip]="savedHint(saved)" matTooltipPosition="left" (click)="applySaved.emit(saved)">
+                <mat-icon>{{ saved.kind === 'rule' ? 'filter_alt' : 'checklist' }}</mat-icon>
+                <span>{{ saved.name }}</span>
+              </button>
+            }
+            @if (savedSelections().length) {
+              <mat-divider></mat-divider>
+            }
+            <button mat-menu-item (click)="saveSelection()">
+              <mat-icon>bookmark_add</mat-icon>
+              <span>Save selection…</span>
+            </button>
+            @if (savedSelections().length) {
+              <button mat-menu-item [matMenuTriggerFor]="deleteMenu">
+                <mat-icon>delete</mat-icon>
+                <span>Delete saved selection</span>
+              </button>
+            }
+          </mat-menu>
+          <mat-menu #deleteMenu="matMenu">
+            @for (saved of savedSelections(); track saved.id) {
+              <button mat-menu-item (click)="deleteSaved(saved)">{{ saved.name }}</button>
+            }
+          </mat-menu>
+          <button mat-icon-button type="button" aria-label="Clear selected items" matTooltip="Clear selected items" (click)="clearSelectedItems()"><mat-icon>clear_all</mat-icon></button>
+        </div>
+      }
     </div>
+    @if (changedItems.length) {
+      <div class="changed-warning" role="alert">
+        <mat-icon>warning</mat-icon>
+        <span class="changed-message">{{ changedMessage() }}</span>
+        <button mat-button type="button" (click)="acknowledgeChanges()">Got it</button>
+      </div>
+    }
   `,
   styleUrls: ['./multi-select-actions.component.scss']
 })
-export class MultiSelectActionsComponent<T extends DataItem> implements OnInit {
+export class MultiSelectActionsComponent<T extends DataItem> implements OnInit, OnChanges {
+  // Selected rows that are loaded in the table
   @Input() selectedItems: T[] = [];
-  @Input() actionContext: 'users' | 'orders' = 'users';
+  // Everything the selection covers, including rows that are not loaded
+  @Input() scope: SelectionScope = { kind: 'ids', ids: [] };
+  // Registry key the table's bulk actions were registered under
+  @Input() actionContext = '';
+  // Wrapping buttons without the selection count, e.g. for a single item's details
+  @Input() compact = false;
+  // The table's filters, offered as the starting rule when saving a selection
+  @Input() filters: DataFilter[] = [];
+  // Fields saved selection rules can filter on
+  @Input() ruleFields: RuleField[] = [];
+  // Asks the table to replace its selection with a saved one
+  @Output() applySaved = new EventEmitter<SavedSelection>();
   @Output() clearSelected = new EventEmitter<void>();
+  @Output() deselectItem = new EventEmitter<T>();
+  // Emits the ids that should stay selected after a partially failed action
+  @Output() retainSelected = new EventEmitter<string[]>();
 
-  actions: Action[] = [];
-
-  userActions: Action[] = [
-    {
-      type: 'sendNotifications',
-      action: (type: string) => this.sendUserNotifications(type),
-      label: 'Send Notifications',
-      icon: 'send',
-      processing: false,
-      width: '175px'
-    },
-    {
-      type: 'updateStatus',
-      action: (type: string) => this.updateUserStatus(type),
-      label: 'Update Status',
-      icon: 'update',
-      processing: false,
-      width: '150px'
-    },
-    {
-      type: 'resetPasswords',
-      action: (type: string) => this.resetUserPasswords(type),
-      label: 'Reset Passwords',
-      icon: 'lock_reset',
-      processing: false,
-      width: '160px'
-    }
-  ];
-
-  orderActions: Action[] = [
-    {
-      type: 'processOrders',
-      action: (type: string) => this.processOrders(type),
-      label: 'Process Orders',
-      icon: 'settings',
-      processing: false,
-      width: '150px'
-    },
-    {
-      type: 'cancelOrders',
-      action: (type: string) => this.cancelOrders(type),
-      label: 'Cancel Orders',
-      icon: 'cancel',
-      processing: false,
-      width: '150px'
-    },
-    {
-      type: 'refundOrders',
-      action: (type: string) => this.refundOrders(type),
-      label: 'Refund Orders',
-      icon: 'payments',
-      processing: false,
-      width: '150px'
-    }
-  ];
+  actions: BulkActionDefinition<T>[] = [];
+  // Figures about the selection the entity asks for, if any
+  summary: SelectionAggregate<T>[] = [];
+  // Entity columns the confirmation dialog previews items with
+  private previewColumns?: ColumnDef<T>[];
+  // Id of the running job per action type
+  private processing = signal<ReadonlyMap<string, string>>(new Map());
+  // Number of selected items each action applies to, keyed by action type
+  private applicable = new Map<string, number>();
+  // Status of each selected item as the user saw it when selecting it
+  private selectedStatuses = new Map<string, SelectedStatus<T>>();
+  // Selected items whose status another client changed since then
+  changedItems: ChangedItem<T>[] = [];
 
   constructor(
     private snackBar: MatSnackBar,
-    private dataService: DataService
+    private dialog: MatDialog,
+    private actionRegistry: ActionRegistryService,
+    private bulkJobs: BulkJobService,
+    private permissions: PermissionService,
+    private savedSelectionService: SavedSelectionService,
+    private liveUpdates: LiveUpdatesService,
+    private entityRegistry: EntityRegistryService
   ) { }
 
   ngOnInit() {
-    this.actions = this.actionContext === 'users' ? this.userActions : this.orderActions;
+    this.actions = this.actionRegistry.getActions<T>(this.actionContext);
+    const entity = this.entityRegistry.get<T>(this.actionContext);
+    this.summary = entity?.summary ?? [];
+    this.previewColumns = entity?.columns.filter(column => entity.previewColumns?.includes(column.key));
+    this.updateApplicability();
+  }
+
+  ngOnChanges() {
+    this.updateApplicability();
+    this.updateChangedItems();
+  }
+
+  get selectedCount(): number {
+    return scopeCount(this.scope);
+  }
+
+  // Actions with `hideWhenDenied` are left out for users without their permission
+  visibleActions(): BulkActionDefinition<T>[] {
+    return this.actions.filter(action => !action.hideWhenDenied || this.isAllowed(action));
+  }
+
+  isAllowed(action: BulkActionDefinition<T>): boolean {
+    return !action.permission || this.permissions.has(action.permission);
+  }
+
+  permissionHint(action: BulkActionDefinition<T>): string {
+    return this.isAllowed(action)
+      ? ''
+      : `Your role (${this.permissions.roleLabel()}) can't ${action.label.toLowerCase()}`;
+  }
+
+  applicableCount(action: BulkActionDefinition<T>): number {
+    // Rows outside the loaded data can't be checked here; the service skips them
+    if (this.scope.kind === 'allMatching') {
+      return this.selectedCount;
+    }
+    return this.applicable.get(action.type) ?? this.selectedCount;
+  }
+
+  applicabilityHint(action: BulkActionDefinition<T>): string {
+    if (action.statusMachine && this.scope.kind === 'allMatching') {
+      return `Matching ${action.statusMachine.itemLabel} that can't be ${action.messages.pastTense} will be skipped`;
+    }
+
+    const allowed = this.applicableCount(action);
+    const total = this.selectedCount;
+    if (!action.statusMachine || !total || allowed === total) {
+      return '';
+    }
+    return `${allowed} of ${total} selected ${action.statusMachine.itemLabel} can be ${action.messages.pastTense}`;
+  }
+
+  savedSelections(): SavedSelection[] {
+    return this.savedSelectionService.forEntity(this.actionContext);
+  }
+
+  savedHint(saved: SavedSelection): string {
+    return saved.kind === 'rule'
+      ? describeRule(saved.filters, this.ruleFields)
+      : `${saved.ids.length} saved row${saved.ids.length === 1 ? '' : 's'}`;
+  }
+
+  async saveSelection() {
+    const dialogRef = this.dialog.open<SaveSelectionDialogComponent, SaveSelectionDialogData, SaveSelectionDialogResult>(
+      SaveSelectionDialogComponent,
+      {
+        width: '640px',
+        data: { selectedCount: this.selectedCount, filters: this.filters, fields: this.ruleFields }
+      }
+    );
+    const result = await firstValueFrom(dialogRef.afterClosed());
+    if (!result) {
+      return;
+    }
+
+    try {
+      if (result.kind === 'static') {
+        await this.savedSelectionService.saveStatic(this.actionContext, result.name, this.scope);
+      } else {
+        this.savedSelectionService.saveRule(this.actionContext, result.name, result.filters);
+      }
+      this.showMessage(`Saved "${result.name}".`);
+    } catch (error) {
+      console.error('Saving the selection failed:', error);
+      this.showError('Could not save the selection.');
+    }
+  }
+
+  deleteSaved(saved: SavedSelection) {
+    this.savedSelectionService.remove(saved.id);
+    this.showMessage(`Deleted "${saved.name}".`);
+  }
+
+  private updateApplicability() {
+    this.applicable = new Map(this.actions.map(action => [
+      action.type,
+      action.statusMachine
+        ? action.statusMachine.partition(action.type, this.selectedItems).allowed.length
+        : this.selectedItems.length
+    ]));
+  }
+
+  changedMessage(): string {
+    if (this.changedItems.length === 1) {
+      const [{ item, previousStatus }] = this.changedItems;
+      return `${item.name} changed from ${previousStatus} to ${item.status} since you selected it.`;
+    }
+    return `${this.changedItems.length} selected items changed status since you selected them.`;
+  }
+
+  acknowledgeChanges() {
+    const now = new Date();
+    this.changedItems.forEach(({ item }) => this.selectedStatuses.set(item.id, { status: item.status, since: now }));
+    this.changedItems = [];
+  }
+
+  // Only changes pushed by the feed count, so this client's own actions never trigger the warning
+  private updateChangedItems() {
+    const lastChanged = this.liveUpdates.lastChanged();
+    const now = new Date();
+    const statuses = new Map<string, SelectedStatus<T>>();
+    this.changedItems = [];
+    this.selectedItems.forEach(item => {
+      const recorded = this.selectedStatuses.get(item.id) ?? { status: item.status, since: now };
+      statuses.set(item.id, recorded);
+      const changedAt = lastChanged.get(item.id);
+      if (changedAt && changedAt >= recorded.since && item.status !== recorded.status) {
+        this.changedItems.push({ item, previousStatus: recorded.status });
+      }
+    });
+
+    // Selected rows on other pages keep what was recorded for them
+    const scope = this.scope;
+    const selectedIds = new Set(scope.kind === 'ids' ? scope.ids : []);
+    const excludedIds = new Set(scope.kind === 'allMatching' ? scope.excludedIds : []);
+    this.selectedStatuses.forEach((recorded, id) => {
+      const selected = scope.kind === 'ids' ? selectedIds.has(id) : !excludedIds.has(id);
+      if (selected && !statuses.has(id)) {
+        statuses.set(id, recorded);
+      }
+    });
+    this.selectedStatuses = statuses;
   }
 
   clearSelectedItems() {
     this.clearSelected.emit();
   }
 
-  setProcessing(type: string, value: boolean) {
-    const action = this.actions.find(a => a.type === type);
-    if (action) action.processing = value;
+  isProcessing(type: string): boolean {
+    return this.processing().has(type);
+  }
+
+  jobFor(type: string): BulkJob | undefined {
+    const jobId = this.processing().get(type);
+    return jobId ? this.bulkJobs.job(jobId) : undefined;
+  }
+
+  setProcessing(type: string, jobId: string | null) {
+    this.processing.update(current => {
+      const next = new Map(current);
+      if (jobId) {
+        next.set(type, jobId);
+      } else {
+        next.delete(type);
+      }
+      return next;
+    });
   }
 
   private showMessage(message: string, action = 'Close') {
@@ -155,69 +371,138 @@ export class MultiSelectActionsComponent<T extends DataItem> implements OnInit {
     });
   }
 
-  sendUserNotifications = (type: string) => {
-    this.setProcessing(type, true);
-    this.showMessage(`Sending notifications to ${this.selectedItems.length} users...`);
-    setTimeout(() => {
-      this.dataService.sendUserNotifications(this.selectedItems as User[]);
-      this.showSuccess('Notifications sent successfully.');
-      this.clearSelectedItems();
-      this.setProcessing(type, false);
-    }, 2000);
-  };
-
-  updateUserStatus = (type: string) => {
-    this.setProcessing(type, true);
-    this.showMessage(`Updating status for ${this.selectedItems.length} users...`);
-    setTimeout(() => {
-      this.dataService.updateUserStatus(this.selectedItems as User[]);
-      this.showSuccess('User status updated successfully.');
-      this.clearSelectedItems();
-      this.setProcessing(type, false);
-    }, 1500);
-  };
-
-  resetUserPasswords = (type: string) => {
-    this.setProcessing(type, true);
-    this.showMessage(`Resetting passwords for ${this.selectedItems.length} users...`);
-    setTimeout(() => {
-      this.dataService.resetUserPasswords(this.selectedItems as User[]);
-      this.showSuccess('Passwords reset successfully.');
-      this.clearSelectedItems();
-      this.setProcessing(type, false);
-    }, 2500);
-  };
-
-  processOrders = (type: string) => {
-    this.setProcessing(type, true);
-    this.showMessage(`Processing ${this.selectedItems.length} orders...`);
-    setTimeout(() => {
-      this.dataService.processOrders(this.selectedItems as Order[]);
-      this.showSuccess('Orders processed successfully.');
-      this.clearSelectedItems();
-      this.setProcessing(type, false);
-    }, 3000);
-  };
-
-  cancelOrders = (type: string) => {
-    this.setProcessing(type, true);
-    this.showMessage(`Cancelling ${this.selectedItems.length} orders...`);
-    setTimeout(() => {
-      this.dataService.cancelOrders(this.selectedItems as Order[]);
-      this.showSuccess('Orders cancelled successfully.');
-      this.clearSelectedItems();
-      this.setProcessing(type, false);
-    }, 1500);
-  };
-
-  refundOrders = (type: string) => {
-    this.setProcessing(type, true);
-    this.showMessage(`Refunding ${this.selectedItems.length} orders...`);
-    setTimeout(() => {
-      this.dataService.refundOrders(this.selectedItems as Order[]);
-      this.showSuccess('Orders refunded successfully.');
-      this.clearSelectedItems();
-      this.setProcessing(type, false);
-    }, 2000);
-  };
-}
\ No newline at end of file
+  private showSuccessWithUndo(action: BulkActionDefinition<T>, summary: string, report: BulkActionReport) {
+    if (!action.undo || !report.undo) {
+      this.showSuccess(summary);
+      return;
+    }
+
+    const undoTokens = report.undo.tokens;
+    const snackBarRef = this.snackBar.open(summary, 'Undo', {
+      duration: Math.max(report.undo.expiresAt.getTime() - Date.now(), 0),
+      horizontalPosition: 'center',
+      verticalPosition: 'bottom',
+      panelClass: ['success-snackbar']
+    });
+    snackBarRef.onAction().subscribe(() => this.undoAction(action, undoTokens));
+  }
+
+  private async undoAction(action: BulkActionDefinition<T>, tokens: string[]) {
+    if (!action.undo) {
+      return;
+    }
+
+    try {
+      const report = await lastValueFrom(from(action.undo(tokens)));
+      const restoredIds = resultsWithOutcome(report, 'succeeded').map(result => result.id);
+      // Reselect the restored rows so the user can pick up where they left off
+      this.retainSelected.emit(restoredIds);
+      this.showMessage(`${action.label} undone for ${restoredIds.length} item${restoredIds.length === 1 ? '' : 's'}.`);
+    } catch (error) {
+      console.error(`Undo of bulk action "${action.type}" failed:`, error);
+      this.showError(`Could not undo ${action.label.toLowerCase()}.`);
+    }
+  }
+
+  private showPartialResult(action: BulkActionDefinition<T>, summary: string, report: BulkActionReport) {
+    const snackBarRef = this.snackBar.open(summary, 'Details', {
+      duration: 8000,
+      horizontalPosition: 'center',
+      verticalPosition: 'bottom',
+      panelClass: [countOutcomes(report).succeeded ? 'warning-snackbar' : 'error-snackbar']
+    });
+    snackBarRef.onAction().subscribe(() => {
+      this.dialog.open<BulkResultDialogComponent, BulkResultDialogData>(BulkResultDialogComponent, {
+        width: '480px',
+        data: { title: action.label, summary, report }
+      });
+    });
+  }
+
+  // Resolves with null when the user backs out of the form
+  private async collectParams(action: BulkActionDefinition<T>, items: T[]): Promise<ActionParams | null> {
+    if (!action.params) {
+      return {};
+    }
+
+    const sample = action.statusMachine
+      ? action.statusMachine.partition(action.type, items).allowed[0]
+      : items[0];
+    const dialogRef = this.dialog.open<ActionParamsDialogComponent, ActionParamsDialogData, ActionParams>(
+      ActionParamsDialogComponent,
+      {
+        width: '520px',
+        data: { schema: action.params, sample }
+      }
+    );
+    return (await firstValueFrom(dialogRef.afterClosed())) ?? null;
+  }
+
+  private async confirmAction(action: BulkActionDefinition<T>, items: T[], params: ActionParams): Promise<boolean> {
+    // Items changed by someone else always get a second look, even for actions that skip confirmation
+    const warning = this.changedItems.length ? `${this.changedMessage()} Make sure the action still applies.` : undefined;
+    if (!action.requiresConfirmation && !warning) {
+      return true;
+    }
+
+    const { allowed, blocked } = action.statusMachine
+      ? action.statusMachine.partition(action.type, items, action.targetStatus?.(params))
+      : { allowed: items, blocked: [] };
+    const dialogRef = this.dialog.open<ConfirmActionDialogComponent<T>, ConfirmActionDialogData<T>, boolean>(
+      ConfirmActionDialogComponent,
+      {
+        width: '560px',
+        data: {
+          confirmation: action.confirmation ?? { title: `${action.label}?`, confirmLabel: action.label },
+          items: allowed,
+          columns: this.previewColumns,
+          skippedCount: blocked.length,
+          params,
+          warning,
+          totalCount: this.scope.kind === 'allMatching' ? this.selectedCount : undefined
+        }
+      }
+    );
+    return (await firstValueFrom(dialogRef.afterClosed())) === true;
+  }
+
+  async runAction(action: BulkActionDefinition<T>) {
+    const items = [...this.selectedItems];
+    const scope = this.scope;
+    const params = await this.collectParams(action, items);
+    if (!params || !(await this.confirmAction(action, items, params))) {
+      return;
+    }
+
+    const job = this.bulkJobs.start(this.actionContext, action, scope, params);
+    this.setProcessing(action.type, job.id);
+    this.showMessage(action.messages.progress(scopeCount(scope)));
+    try {
+      const report = await job.done;
+      const summary = summarizeReport(report, action.messages);
+      const counts = countOutcomes(report);
+
+      if (counts.succeeded === report.results.length) {
+        this.showSuccessWithUndo(action, summary, report);
+        this.clearSelectedItems();
+        return;
+      }
+
+      this.showPartialResult(action, summary, report);
+      // Keep failed rows selected so they can be retried
+      const failedIds = resultsWithOutcome(report, 'failed').map(result => result.id);
+      if (failedIds.length) {
+        this.retainSelected.emit(failedIds);
+      } else {
+        this.clearSelectedItems();
+      }
+    } catch (error) {
+      console.error(`Bulk action "${action.type}" failed:`, error);
+      this.showError(error instanceof PermissionDeniedError
+        ? `You don't have permission to ${action.label.toLowerCase()}.`
+        : action.messages.error);
+    } finally {
+      this.setProcessing(action.type, null);
+    }
+  }
+}
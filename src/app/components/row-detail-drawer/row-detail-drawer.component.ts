@@ -0,0 +1,135 @@
+import { Component, computed, inject, LOCALE_ID, signal } from '@angular/core';
+import { CommonModule, formatDate } from '@angular/common';
+import { MAT_DIALOG_DATA, MatDialogModule } from '@angular/material/dialog';
+import { MatButtonModule } from '@angular/material/button';
+import { MatIconModule } from '@angular/material/icon';
+import { MatTooltipModule } from '@angular/material/tooltip';
+import { DataItem } from '../../interfaces/data-item.interface';
+import { ColumnDef } from '../../interfaces/column-def.interface';
+import { SelectionScope } from '../../models/selection-scope.model';
+import { formatColumnValue } from '../../models/column-formatters';
+import { itemTimeline } from '../../models/item-timeline.model';
+import { AuditLogService } from '../../services/audit-log.service';
+import { DataService } from '../../services/data.service';
+import { EntityRegistryService } from '../../services/entity-registry.service';
+import { MultiSelectActionsComponent } from '../multi-select-actions/multi-select-actions.component';
+
+export interface RowDetailDrawerData<T extends DataItem = DataItem> {
+  item: T;
+  // Used for the labels and formatting of the fields they cover
+  columns: ColumnDef<T>[];
+  // Registry key of the table's bulk actions, offered here for the one item
+  actionContext: string;
+}
+
+interface DetailField {
+  key: string;
+  label: string;
+  value: string;
+}
+
+// "passwordResetAt" -> "Password reset at"
+function fieldLabel(key: string): string {
+  const words = key.replace(/([a-z])([A-Z])/g, '$1 $2').toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+@Component({
+  selector: 'app-row-detail-drawer',
+  standalone: true,
+  imports: [CommonModule, MatDialogModule, MatButtonModule, MatIconModule, MatTooltipModule, MultiSelectActionsComponent],
+  template: `
+    <div class="drawer-header">
+      <h2 mat-dialog-title>{{ item().name }}</h2>
+      <button mat-icon-button type="button" aria-label="Close details" mat-dialog-close>
+        <mat-icon>close</mat-icon>
+      </button>
+    </div>
+
+    <mat-dialog-content>
+      <app-multi-select-actions
+        [compact]="true"
+        [selectedItems]="[item()]"
+        [scope]="scope()"
+        [actionContext]="data.actionContext"
+        (clearSelected)="refresh()"
+        (retainSelected)="refresh()"
+      ></app-multi-select-actions>
+
+      <h3>Details</h3>
+      <dl class="detail-fields">
+        @for (field of fields(); track field.key) {
+          <dt>{{ field.label }}</dt>
+          <dd>{{ field.value }}</dd>
+        }
+      </dl>
+
+      <h3>Timeline</h3>
+      <ol class="timeline">
+        @for (event of timeline(); track $index) {
+          <li [class.audit-event]="event.fromAuditLog">
+            <span class="event-label">
+              {{ event.label }}
+              @if (event.fromAuditLog) {
+                <mat-icon class="audit-icon" matTooltip="Bulk action from the history">history</mat-icon>
+              }
+            </span>
+            <span class="event-time">{{ event.at | date:'medium' }}</span>
+            @if (event.detail) {
+              <span class="event-detail">{{ event.detail }}</span>
+            }
+          </li>
+        }
+      </ol>
+    </mat-dialog-content>
+  `,
+  styleUrls: ['./row-detail-drawer.component.scss']
+})
+export class RowDetailDrawerComponent<T extends DataItem> {
+  data: RowDetailDrawerData<T> = inject(MAT_DIALOG_DATA);
+  private dataService = inject(DataService);
+  private auditLog = inject(AuditLogService);
+  private timelineFields = inject(EntityRegistryService).get<T>(this.data.actionContext)?.timeline ?? [];
+  private locale = inject(LOCALE_ID);
+
+  item = signal<T>(this.data.item);
+  scope = computed((): SelectionScope => ({ kind: 'ids', ids: [this.item().id] }));
+
+  fields = computed((): DetailField[] => {
+    const item = this.item();
+    const columns = new Map(this.data.columns.map(column => [column.key, column]));
+    return Object.entries(item).map(([key, value]) => {
+      const column = columns.get(key);
+      return {
+        key,
+        label: column?.header ?? fieldLabel(key),
+        value: column ? formatColumnValue(column, item, this.locale) : this.formatValue(value)
+      };
+    });
+  });
+
+  timeline = computed(() => itemTimeline(
+    this.item(),
+    this.timelineFields,
+    this.auditLog.entries().filter(entry => entry.entityType === this.data.actionContext)
+  ));
+
+  // Reloads the item after an action ran on it
+  async refresh() {
+    try {
+      const [fresh] = await this.dataService.fetchItems<T>(this.data.actionContext, this.scope());
+      if (fresh) {
+        this.item.set(fresh);
+      }
+    } catch (error) {
+      console.error('Could not reload the item:', error);
+    }
+  }
+
+  private formatValue(value: unknown): string {
+    if (value instanceof Date) {
+      return formatDate(value, 'medium', this.locale);
+    }
+    return value === null || value === undefined ? '' : String(value);
+  }
+}
@@ -0,0 +1,160 @@
+import { Component, inject } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormArray, FormControl, FormGroup, ReactiveFormsModule, Validators } from '@angular/forms';
+import { MAT_DIALOG_DATA, MatDialogModule, MatDialogRef } from '@angular/material/dialog';
+import { MatButtonModule } from '@angular/material/button';
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatIconModule } from '@angular/material/icon';
+import { MatInputModule } from '@angular/material/input';
+import { MatRadioModule } from '@angular/material/radio';
+import { MatSelectModule } from '@angular/material/select';
+import { DataFilter, FilterOperator } from '../../interfaces/data-query.interface';
+import { RuleField, SavedSelection } from '../../interfaces/saved-selection.interface';
+import { FILTER_OPERATOR_LABELS } from '../../models/saved-selection.model';
+
+export interface SaveSelectionDialogData {
+  selectedCount: number;
+  // Prefill the rule, e.g. with the table's current filters
+  filters: DataFilter[];
+  fields: RuleField[];
+}
+
+export interface SaveSelectionDialogResult {
+  name: string;
+  kind: SavedSelection['kind'];
+  filters: DataFilter[];
+}
+
+type ConditionGroup = FormGroup<{
+  field: FormControl<string>;
+  operator: FormControl<FilterOperator>;
+  value: FormControl<string>;
+}>;
+
+@Component({
+  selector: 'app-save-selection-dialog',
+  standalone: true,
+  imports: [
+    CommonModule,
+    ReactiveFormsModule,
+    MatDialogModule,
+    MatButtonModule,
+    MatFormFieldModule,
+    MatIconModule,
+    MatInputModule,
+    MatRadioModule,
+    MatSelectModule
+  ],
+  template: `
+    <h2 mat-dialog-title>Save selection</h2>
+    <form [formGroup]="form" (ngSubmit)="submit()">
+      <mat-dialog-content>
+        <mat-form-field appearance="outline" class="name-field">
+          <mat-label>Name</mat-label>
+          <input matInput formControlName="name" autocomplete="off" cdkFocusInitial>
+          <mat-error>Name is required</mat-error>
+        </mat-form-field>
+
+        <mat-radio-group formControlName="kind" class="kind-options">
+          <mat-radio-button value="static" [disabled]="!data.selectedCount">
+            The {{ data.selectedCount | number }} selected row{{ data.selectedCount === 1 ? '' : 's' }}
+          </mat-radio-button>
+          <mat-radio-button value="rule">Rows matching a rule, re-evaluated when applied</mat-radio-button>
+        </mat-radio-group>
+
+        @if (form.controls.kind.value === 'rule') {
+          <div formArrayName="conditions">
+            @for (condition of form.controls.conditions.controls; track condition; let i = $index) {
+              <div class="condition" [formGroupName]="i">
+                <mat-form-field appearance="outline">
+                  <mat-label>Field</mat-label>
+                  <mat-select formControlName="field">
+                    @for (field of data.fields; track field.key) {
+                      <mat-option [value]="field.key">{{ field.label }}</mat-option>
+                    }
+                  </mat-select>
+                </mat-form-field>
+                <mat-form-field appearance="outline">
+                  <mat-label>Operator</mat-label>
+                  <mat-select formControlName="operator">
+                    @for (operator of operators; track operator) {
+                      <mat-option [value]="operator">{{ operatorLabels[operator] }}</mat-option>
+                    }
+                  </mat-select>
+                </mat-form-field>
+                <mat-form-field appearance="outline">
+                  <mat-label>Value</mat-label>
+                  <input matInput formControlName="value" autocomplete="off">
+                </mat-form-field>
+                <button mat-icon-button type="button" aria-label="Remove condition" (click)="removeCondition(i)">
+                  <mat-icon>remove_circle_outline</mat-icon>
+                </button>
+              </div>
+            }
+          </div>
+          <button mat-button type="button" (click)="addCondition()">
+            <mat-icon>add</mat-icon>
+            Add condition
+          </button>
+          @if (!form.controls.conditions.length) {
+            <p class="form-error">Add at least one condition.</p>
+          }
+        }
+      </mat-dialog-content>
+      <mat-dialog-actions align="end">
+        <button mat-button type="button" mat-dialog-close>Cancel</button>
+        <button mat-raised-button color="primary" type="submit" [disabled]="!canSave()">Save</button>
+      </mat-dialog-actions>
+    </form>
+  `,
+  styleUrls: ['./save-selection-dialog.component.scss']
+})
+export class SaveSelectionDialogComponent {
+  data: SaveSelectionDialogData = inject(MAT_DIALOG_DATA);
+  private dialogRef = inject(MatDialogRef<SaveSelectionDialogComponent, SaveSelectionDialogResult>);
+
+  operators = Object.keys(FILTER_OPERATOR_LABELS) as FilterOperator[];
+  operatorLabels = FILTER_OPERATOR_LABELS;
+
+  form = new FormGroup({
+    name: new FormControl('', { nonNullable: true, validators: Validators.required }),
+    kind: new FormControl<SavedSelection['kind']>(this.data.selectedCount ? 'static' : 'rule', { nonNullable: true }),
+    conditions: new FormArray<ConditionGroup>(this.data.filters.map(filter => this.createCondition(filter)))
+  });
+
+  addCondition() {
+    this.form.controls.conditions.push(this.createCondition());
+  }
+
+  removeCondition(index: number) {
+    this.form.controls.conditions.removeAt(index);
+  }
+
+  canSave(): boolean {
+    const { name, kind, conditions } = this.form.controls;
+    if (kind.value === 'static') {
+      return name.valid;
+    }
+    return name.valid && conditions.valid && conditions.length > 0;
+  }
+
+  submit() {
+    if (!this.canSave()) {
+      return;
+    }
+    const { name, kind, conditions } = this.form.getRawValue();
+    this.dialogRef.close({
+      name: name.trim(),
+      kind,
+      filters: kind === 'rule' ? conditions.map(condition => ({ ...condition, value: condition.value.trim() })) : []
+    });
+  }
+
+  private createCondition(filter?: DataFilter): ConditionGroup {
+    return new FormGroup({
+      field: new FormControl(filter?.field ?? this.data.fields[0]?.key ?? '', { nonNullable: true, validators: Validators.required }),
+      operator: new FormControl<FilterOperator>(filter?.operator ?? 'eq', { nonNullable: true }),
+      value: new FormControl(String(filter?.value ?? ''), { nonNullable: true, validators: Validators.required })
+    });
+  }
+}
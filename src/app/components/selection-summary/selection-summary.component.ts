@@ -0,0 +1,115 @@
+import { Component, EventEmitter, Input, LOCALE_ID, OnChanges, Output, inject } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { MatButtonModule } from '@angular/material/button';
+import { MatIconModule } from '@angular/material/icon';
+import { MatMenuModule } from '@angular/material/menu';
+import { MatTooltipModule } from '@angular/material/tooltip';
+import { DataItem } from '../../interfaces/data-item.interface';
+import { SelectionAggregate, SelectionSummaryEntry } from '../../interfaces/selection-summary.interface';
+import { summarizeSelection } from '../../models/selection-summary.model';
+
+interface SummaryFigure {
+  label: string;
+  text: string;
+  // Full text when `text` is shortened
+  detail?: string;
+}
+
+/**
+ * The selection count with figures about the selected items. The count opens
+ * a list of the selected items, each of which can be deselected from there.
+ */
+@Component({
+  selector: 'app-selection-summary',
+  standalone: true,
+  imports: [CommonModule, MatButtonModule, MatIconModule, MatMenuModule, MatTooltipModule],
+  template: `
+    <div class="selection-summary">
+      @if (figures.length) {
+        <dl class="summary-figures" aria-label="Selection summary">
+          @for (figure of figures; track figure.label) {
+            <div class="summary-figure" [matTooltip]="figure.detail ?? ''">
+              <dt>{{ figure.label }}</dt>
+              <dd>{{ figure.text }}</dd>
+            </div>
+          }
+          @if (items.length < count) {
+            <div class="summary-figure partial" matTooltip="Rows that aren't loaded are not included">
+              <dt>Covers</dt>
+              <dd>{{ items.length | number }} loaded</dd>
+            </div>
+          }
+        </dl>
+      }
+      <button mat-button type="button" class="selected-count-button"
+        [matMenuTriggerFor]="selectedMenu"
+        [disabled]="!items.length"
+        matTooltip="Show selected items">
+        {{ count | number }} selected
+        <mat-icon iconPositionEnd>arrow_drop_down</mat-icon>
+      </button>
+    </div>
+
+    <mat-menu #selectedMenu="matMenu" xPosition="before">
+      <!-- Deselecting keeps the list open -->
+      <ul class="selected-items" (click)="$event.stopPropagation()">
+        @for (item of listedItems(); track item.id) {
+          <li class="selected-item">
+            <span class="item-name">{{ item.name }}</span>
+            <span class="item-status">{{ item.status }}</span>
+            <button mat-icon-button type="button" [attr.aria-label]="'Deselect ' + item.name" (click)="deselect.emit(item)">
+              <mat-icon>close</mat-icon>
+            </button>
+          </li>
+        }
+        @if (items.length > maxListed) {
+          <li class="more-items">and {{ items.length - maxListed | number }} more</li>
+        }
+      </ul>
+    </mat-menu>
+  `,
+  styleUrls: ['./selection-summary.component.scss']
+})
+export class SelectionSummaryComponent<T extends DataItem> implements OnChanges {
+  // Selected items that are loaded; the figures and list cover these
+  @Input() items: T[] = [];
+  // Number of items the selection covers, loaded or not
+  @Input() count = 0;
+  @Input() aggregates: SelectionAggregate<T>[] = [];
+  @Output() deselect = new EventEmitter<T>();
+
+  figures: SummaryFigure[] = [];
+  // Longer lists are cut off; the table is the better place to review them
+  maxListed = 100;
+  // Groups of a breakdown named before the rest are summed up
+  maxBreakdownGroups = 3;
+  private locale = inject(LOCALE_ID);
+
+  ngOnChanges() {
+    this.figures = this.items.length
+      ? summarizeSelection(this.items, this.aggregates).map(entry => this.toFigure(entry))
+      : [];
+  }
+
+  listedItems(): T[] {
+    return this.items.slice(0, this.maxListed);
+  }
+
+  private toFigure(entry: SelectionSummaryEntry<T>): SummaryFigure {
+    const { aggregate } = entry;
+    if ('value' in entry) {
+      const format = entry.aggregate.format;
+      return { label: aggregate.label, text: format ? format(entry.value, this.locale) : String(entry.value) };
+    }
+
+    const heading = entry.aggregate.heading;
+    const parts = entry.counts.map(({ key, count }) => `${count} ${heading ? heading(key, this.locale) : key}`);
+    const shown = parts.slice(0, this.maxBreakdownGroups);
+    const hidden = parts.length - shown.length;
+    return {
+      label: aggregate.label,
+      text: shown.join(', ') + (hidden ? `, +${hidden} more` : ''),
+      detail: hidden ? parts.join(', ') : undefined
+    };
+  }
+}
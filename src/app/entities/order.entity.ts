@@ -0,0 +1,50 @@
+import { Order } from '../interfaces/data-item.interface';
+import { EntityDefinition } from '../interfaces/entity-definition.interface';
+import { formatAsCurrency, formatAsDate, formatAsTitleCase } from '../models/column-formatters';
+import { GroupAggregate } from '../interfaces/row-grouping.interface';
+import { orderActions } from '../actions/order.actions';
+
+const formatAmount = (amount: number, locale: string) => formatAsCurrency('USD')(amount, null, locale);
+
+const TOTAL_AMOUNT: GroupAggregate<Order> = { label: 'Total', field: 'amount', format: formatAmount };
+
+export const ORDER_ENTITY: EntityDefinition<Order> = {
+  key: 'orders',
+  title: 'Orders Management',
+  navLabel: 'Orders Table Example',
+  columns: [
+    { key: 'name', header: 'Name' },
+    { key: 'email', header: 'Email' },
+    { key: 'amount', header: 'Amount', format: formatAsCurrency('USD') },
+    { key: 'status', header: 'Status', cell: 'status', format: formatAsTitleCase },
+    { key: 'orderDate', header: 'Order Date', format: formatAsDate('short') },
+    { key: 'createdAt', header: 'Created', format: formatAsDate('short') }
+  ],
+  previewColumns: ['name', 'email', 'status'],
+  statuses: ['active', 'inactive', 'pending', 'processed', 'canceled', 'refunded'],
+  groupings: [
+    { key: 'status', label: 'Status', field: 'status', heading: formatAsTitleCase, aggregates: [TOTAL_AMOUNT] },
+    {
+      key: 'orderMonth',
+      label: 'Order month',
+      field: 'orderDate',
+      bucket: 'month',
+      heading: (month, locale) => formatAsDate('MMMM y')(`${month}-01T00:00:00`, null, locale),
+      aggregates: [TOTAL_AMOUNT]
+    }
+  ],
+  summary: [
+    { kind: 'sum', label: 'Total', value: item => item.amount, format: formatAmount },
+    { kind: 'average', label: 'Average', value: item => item.amount, format: formatAmount },
+    { kind: 'breakdown', label: 'Status', groupBy: item => item.status, heading: formatAsTitleCase }
+  ],
+  timeline: [
+    { field: 'createdAt', label: 'Created' },
+    { field: 'orderDate', label: 'Ordered' },
+    { field: 'processedAt', label: 'Processed' },
+    { field: 'canceledAt', label: 'Canceled' },
+    { field: 'refundedAt', label: 'Refunded' }
+  ],
+  virtualScroll: true,
+  actions: orderActions
+};
@@ -0,0 +1,41 @@
+import { Product } from '../interfaces/data-item.interface';
+import { EntityDefinition } from '../interfaces/entity-definition.interface';
+import { formatAsCurrency, formatAsDate, formatAsTitleCase } from '../models/column-formatters';
+import { productActions } from '../actions/product.actions';
+
+export const PRODUCT_ENTITY: EntityDefinition<Product> = {
+  key: 'products',
+  title: 'Products Catalog',
+  navLabel: 'Products',
+  columns: [
+    { key: 'name', header: 'Name' },
+    { key: 'sku', header: 'SKU', width: '120px' },
+    { key: 'category', header: 'Category' },
+    { key: 'price', header: 'Price', format: formatAsCurrency('USD') },
+    { key: 'stock', header: 'Stock' },
+    { key: 'status', header: 'Status', cell: 'status', format: formatAsTitleCase },
+    { key: 'createdAt', header: 'Created', format: formatAsDate('short') }
+  ],
+  previewColumns: ['name', 'sku', 'status'],
+  statuses: ['active', 'low-stock', 'out-of-stock', 'discontinued'],
+  groupings: [
+    { key: 'category', label: 'Category', field: 'category' },
+    {
+      key: 'status',
+      label: 'Status',
+      field: 'status',
+      heading: formatAsTitleCase,
+      aggregates: [{ label: 'In stock', field: 'stock' }]
+    }
+  ],
+  summary: [
+    { kind: 'sum', label: 'In stock', value: item => item.stock },
+    { kind: 'breakdown', label: 'Status', groupBy: item => item.status, heading: formatAsTitleCase }
+  ],
+  timeline: [
+    { field: 'createdAt', label: 'Created' },
+    { field: 'restockedAt', label: 'Restocked' },
+    { field: 'discontinuedAt', label: 'Discontinued' }
+  ],
+  actions: productActions
+};
@@ -0,0 +1,36 @@
+import { User } from '../interfaces/data-item.interface';
+import { EntityDefinition } from '../interfaces/entity-definition.interface';
+import { formatAsDate, formatAsTitleCase } from '../models/column-formatters';
+import { userActions } from '../actions/user.actions';
+
+export const USER_ENTITY: EntityDefinition<User> = {
+  key: 'users',
+  title: 'Users Management',
+  navLabel: 'Users Table Example',
+  columns: [
+    { key: 'name', header: 'Name' },
+    { key: 'email', header: 'Email' },
+    { key: 'department', header: 'Department' },
+    { key: 'status', header: 'Status', cell: 'status', format: formatAsTitleCase },
+    { key: 'lastLogin', header: 'Last Login', format: formatAsDate('short') },
+    { key: 'createdAt', header: 'Created', format: formatAsDate('short') }
+  ],
+  previewColumns: ['name', 'email', 'status'],
+  statuses: ['active', 'inactive', 'pending', 'updated', 'reset'],
+  groupings: [
+    { key: 'department', label: 'Department', field: 'department' },
+    { key: 'status', label: 'Status', field: 'status', heading: formatAsTitleCase }
+  ],
+  summary: [
+    { kind: 'breakdown', label: 'Department', groupBy: item => item.department },
+    { kind: 'breakdown', label: 'Status', groupBy: item => item.status, heading: formatAsTitleCase }
+  ],
+  timeline: [
+    { field: 'createdAt', label: 'Created' },
+    { field: 'lastLogin', label: 'Last login' },
+    { field: 'lastNotified', label: 'Notified', detail: item => item.lastNotificationSubject },
+    { field: 'statusChangedAt', label: 'Status changed' },
+    { field: 'passwordResetAt', label: 'Password reset' }
+  ],
+  actions: userActions
+};
@@ -0,0 +1,13 @@
+import { inject } from '@angular/core';
+import { CanActivateFn, Router } from '@angular/router';
+import { Permission } from '../interfaces/permission.interface';
+import { PermissionService } from '../services/permission.service';
+
+// Sends users without the permission to the access denied page
+export function requirePermission(permission: Permission): CanActivateFn {
+  return () => {
+    const router = inject(Router);
+    return inject(PermissionService).has(permission)
+      || router.createUrlTree(['/access-denied'], { queryParams: { permission } });
+  };
+}
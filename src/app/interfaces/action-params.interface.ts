@@ -0,0 +1,57 @@
+import { User } from './data-item.interface';
+
+export type ActionParamValue = string | number;
+export type ActionParams = Record<string, ActionParamValue>;
+
+export interface ActionParamOption {
+  value: string;
+  label: string;
+}
+
+export interface ActionParamField {
+  key: string;
+  label: string;
+  type: 'select' | 'text' | 'textarea' | 'number';
+  // Choices for select fields
+  options?: ActionParamOption[];
+  defaultValue?: ActionParamValue;
+  required?: boolean;
+  min?: number;
+  max?: number;
+  hint?: string;
+  // Item fields the value may reference as `{{field}}`; makes the field a message template
+  templateFields?: string[];
+  // Hides and skips the field unless this returns true for the current values
+  visibleWhen?: (params: ActionParams) => boolean;
+}
+
+/** Parameters a bulk action asks for before it runs, rendered as a form. */
+export interface ActionParamSchema {
+  title: string;
+  submitLabel: string;
+  fields: ActionParamField[];
+  // Checks spanning several fields; returns an error message, or null when valid
+  validate?: (params: ActionParams) => string | null;
+}
+
+export interface StatusUpdateParams {
+  status: User['status'];
+}
+
+export interface NotificationParams {
+  subject: string;
+  body: string;
+}
+
+export type RefundMode = 'full' | 'amount' | 'percentage';
+
+export interface RefundParams {
+  mode: RefundMode;
+  // Amount per order, or percentage of each order, depending on the mode
+  value?: number;
+}
+
+export interface RestockParams {
+  // Units added to the stock of each product
+  quantity: number;
+}
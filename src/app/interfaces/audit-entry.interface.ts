@@ -0,0 +1,19 @@
+import { BulkItemResult } from './bulk-action.interface';
+import { ActionParams } from './action-params.interface';
+
+export type AuditOutcome = 'succeeded' | 'partial' | 'failed' | 'canceled';
+
+export interface AuditEntry {
+  id: string;
+  timestamp: Date;
+  // Registry key of the table the action ran on, e.g. "orders"
+  entityType: string;
+  actionType: string;
+  actionLabel: string;
+  // Values entered in the action's parameter form
+  params?: ActionParams;
+  outcome: AuditOutcome;
+  summary: string;
+  // Affected items with their status before and after the action
+  items: BulkItemResult[];
+}
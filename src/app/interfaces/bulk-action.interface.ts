@@ -0,0 +1,83 @@
+import { Observable } from 'rxjs';
+import { DataItem } from './data-item.interface';
+import { StatusMachine } from '../models/status-machine.model';
+import { SelectionScope } from '../models/selection-scope.model';
+import { ActionParamSchema, ActionParams } from './action-params.interface';
+import { Permission } from './permission.interface';
+
+export type BulkItemOutcome = 'succeeded' | 'failed' | 'skipped';
+
+export interface BulkItemResult {
+  id: string;
+  name: string;
+  outcome: BulkItemOutcome;
+  reason?: string;
+  // Status of the item before and after the action, when the item exists
+  statusBefore?: string;
+  statusAfter?: string;
+}
+
+export interface BulkUndoHandle {
+  // One token per request that made changes; a chunked job may have several
+  tokens: string[];
+  expiresAt: Date;
+}
+
+export interface BulkActionReport {
+  results: BulkItemResult[];
+  // Present when the succeeded items can still be restored
+  undo?: BulkUndoHandle;
+  // Ids of items the server changed while the action was pending
+  conflicts?: string[];
+}
+
+// Body of a `POST /<collection>/bulk/<action>` request
+export interface BulkActionRequest {
+  scope: SelectionScope;
+  params?: ActionParams;
+}
+
+export interface BulkActionMessages {
+  progress: (count: number) => string;
+  // Shown when every item succeeded
+  success: string;
+  // Past tense used in partial summaries, e.g. "3 of 5 refunded, 2 failed"
+  pastTense: string;
+  // Shown when the request as a whole failed
+  error: string;
+}
+
+export interface BulkActionConfirmation<T extends DataItem = DataItem> {
+  title: string;
+  confirmLabel: string;
+  // Amount shown per previewed row and summed into a total, e.g. refund value
+  amount?(item: T, params?: ActionParams): number;
+  totalLabel?: string;
+  // Selections of at least this many items must type the count to confirm
+  typeToConfirmThreshold?: number;
+}
+
+export interface BulkActionDefinition<T extends DataItem = DataItem> {
+  type: string;
+  label: string;
+  icon: string;
+  width: string;
+  // Receives the validated values of `params` when the action declares them
+  handler: (scope: SelectionScope, params?: ActionParams) => Promise<BulkActionReport> | Observable<BulkActionReport>;
+  // Restores the items changed by a previous run; omitted for irreversible actions
+  undo?: (tokens: string[]) => Promise<BulkActionReport> | Observable<BulkActionReport>;
+  messages: BulkActionMessages;
+  // Inputs asked for in a form before the action runs
+  params?: ActionParamSchema;
+  // Rules deciding which selected items the action applies to
+  statusMachine?: StatusMachine<T>;
+  // Status picked in the params form, for transitions that offer `targets`
+  targetStatus?(params: ActionParams): T['status'];
+  // Permission the current user needs to run the action
+  permission?: Permission;
+  // Hide the action from users without `permission` instead of disabling it
+  hideWhenDenied?: boolean;
+  // Destructive actions ask for confirmation with a preview of affected rows
+  requiresConfirmation?: boolean;
+  confirmation?: BulkActionConfirmation<T>;
+}
@@ -0,0 +1,26 @@
+import { BulkActionReport } from './bulk-action.interface';
+
+export type BulkJobStatus = 'running' | 'canceling' | 'completed' | 'canceled' | 'failed';
+
+export interface BulkJob {
+  id: string;
+  // Label of the action the job runs, e.g. "Refund Orders"
+  label: string;
+  // Registry key of the table the job was started from
+  context: string;
+  status: BulkJobStatus;
+  // Items processed so far, out of `total`
+  processed: number;
+  total: number;
+  startedAt: Date;
+  finishedAt?: Date;
+  // Outcome summary and per-item results, set once the job has finished
+  summary?: string;
+  report?: BulkActionReport;
+}
+
+export interface BulkJobRef {
+  id: string;
+  // Resolves with the results of every batch that ran
+  done: Promise<BulkActionReport>;
+}
@@ -0,0 +1,16 @@
+import { Observable } from 'rxjs';
+import { DataItem } from './data-item.interface';
+
+/** A change made to an item outside this client, e.g. by a colleague. */
+export interface ItemChange<T extends DataItem = DataItem> {
+  // Collection the item belongs to, e.g. "orders"
+  collection: string;
+  // The item as it is after the change
+  item: T;
+  changedAt: Date;
+}
+
+export interface ChangeFeed {
+  // Subscribing opens the connection and unsubscribing closes it
+  connect(): Observable<ItemChange>;
+}
@@ -0,0 +1,24 @@
+import { TemplateRef } from '@angular/core';
+import { DataItem } from './data-item.interface';
+
+export interface ColumnCellContext<T extends DataItem = DataItem> {
+  $implicit: T;
+  value: unknown;
+}
+
+// Built-in cell renderers; `text` shows the formatted value
+export type ColumnCellType = 'text' | 'status' | 'chip';
+
+export interface ColumnDef<T extends DataItem = DataItem> {
+  // Column id; also the field used for sorting and the default accessor
+  key: string;
+  header: string;
+  accessor?: (item: T) => unknown;
+  format?: (value: unknown, item: T, locale: string) => string;
+  cell?: ColumnCellType;
+  // Custom cell content; takes precedence over `cell`
+  cellTemplate?: TemplateRef<ColumnCellContext<T>>;
+  // Columns are sortable unless set to false
+  sortable?: boolean;
+  width?: string;
+}
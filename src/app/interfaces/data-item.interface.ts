@@ -1,29 +1,47 @@
-export interface User {
+/**
+ * Fields every entity has. Shared components only rely on these, so new
+ * entities just extend it and narrow `status` and `type`.
+ */
+export interface DataItem {
   id: string;
   name: string;
+  status: string;
+  // Entity type, e.g. "user"
+  type: string;
+  createdAt: Date;
+}
+
+export interface User extends DataItem {
   email: string;
   status: 'active' | 'inactive' | 'pending' | 'updated' | 'reset';
-  createdAt: Date;
   type: 'user';
   department: string;
   lastLogin: Date;
   lastNotified?: Date;
+  lastNotificationSubject?: string;
   statusChangedAt?: Date;
   passwordResetAt?: Date;
 }
 
-export interface Order {
-  id: string;
-  name: string;
+export interface Order extends DataItem {
   email: string;
   status: 'active' | 'inactive' | 'pending' | 'processed' | 'canceled' | 'refunded';
-  createdAt: Date;
   type: 'order';
   amount: number;
   orderDate: Date;
   processedAt?: Date;
   canceledAt?: Date;
   refundedAt?: Date;
+  refundedAmount?: number;
 }
 
-export type DataItem = User | Order;
\ No newline at end of file
+export interface Product extends DataItem {
+  status: 'active' | 'low-stock' | 'out-of-stock' | 'discontinued';
+  type: 'product';
+  sku: string;
+  category: string;
+  price: number;
+  stock: number;
+  restockedAt?: Date;
+  discontinuedAt?: Date;
+}
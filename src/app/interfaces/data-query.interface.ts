@@ -0,0 +1,26 @@
+export type FilterOperator = 'eq' | 'contains' | 'gt' | 'lt';
+
+export interface DataFilter {
+  field: string;
+  operator: FilterOperator;
+  value: string | number;
+}
+
+export interface DataQuery {
+  filters: DataFilter[];
+}
+
+export type SortDirection = 'asc' | 'desc';
+
+export interface TableQuery extends DataQuery {
+  // Zero-based page index
+  page: number;
+  pageSize: number;
+  sortField?: string;
+  sortDirection?: SortDirection;
+}
+
+export interface PagedResult<T> {
+  items: T[];
+  total: number;
+}
@@ -0,0 +1,37 @@
+import { Signal } from '@angular/core';
+import { DataItem } from './data-item.interface';
+import { ActionParams } from './action-params.interface';
+import { BulkActionReport } from './bulk-action.interface';
+import { PagedResult, TableQuery } from './data-query.interface';
+import { StatusMachine } from '../models/status-machine.model';
+import { SelectionScope } from '../models/selection-scope.model';
+
+export interface BulkCallOptions<T extends DataItem> {
+  // Validated values from the action's parameter form
+  params?: ActionParams;
+  // Status picked by the user, for transitions that offer `targets`
+  targetStatus?: T['status'];
+}
+
+/** An entity's loaded page and row markers, ready to bind to the table. */
+export interface EntityCollection<T extends DataItem> {
+  // The page as last loaded, with pending status changes applied
+  page: Signal<PagedResult<T> | null>;
+  // Ids of rows whose status is shown optimistically until the server confirms it
+  pendingIds: Signal<ReadonlySet<string>>;
+  // Ids of rows another client changed in the last `changeHighlightMs`
+  changedIds: Signal<ReadonlySet<string>>;
+  // Loads a page; out-of-order responses are dropped
+  load(query: TableQuery): void;
+  // Appends the page after the loaded ones, for virtual scrolling from the
+  // first page; does nothing once every matching row is loaded
+  loadMore(): void;
+  // Runs `POST /<key>/bulk/<action>` on this entity; see `DataService.runBulk`
+  runBulk(
+    action: string,
+    scope: SelectionScope,
+    machine: StatusMachine<T>,
+    actionType: string,
+    options?: BulkCallOptions<T>
+  ): Promise<BulkActionReport>;
+}
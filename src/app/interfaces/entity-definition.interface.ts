@@ -0,0 +1,40 @@
+import { DataItem } from './data-item.interface';
+import { ColumnDef } from './column-def.interface';
+import { BulkActionDefinition } from './bulk-action.interface';
+import { EntityCollection } from './entity-collection.interface';
+import { RowGrouping } from './row-grouping.interface';
+import { SelectionAggregate } from './selection-summary.interface';
+import { TimelineField } from './item-timeline.interface';
+
+// Every registered entity; new ones are added here along with their permissions
+export type EntityKey = 'users' | 'orders' | 'products';
+
+/**
+ * Describes an entity shown in its own table. Registering one with
+ * `provideEntity` adds its navigation entry and bulk actions; its items are
+ * loaded from `GET <API_BASE_URL>/<key>` and viewing it takes `<key>:view`.
+ */
+export interface EntityDefinition<T extends DataItem> {
+  // Collection name used in API paths, routes, permissions and the action registry, e.g. "orders"
+  key: EntityKey;
+  // Table heading, e.g. "Orders Management"
+  title: string;
+  // Toolbar button label
+  navLabel: string;
+  columns: ColumnDef<T>[];
+  // Keys of the columns the confirmation dialog previews items with; defaults to name and status
+  previewColumns?: string[];
+  // Every status an item can have, offered in the status filter
+  statuses: readonly T['status'][];
+  // Ways to group the table's rows, offered in its "Group by" select
+  groupings?: RowGrouping<T>[];
+  // Figures about the selected items shown in the actions bar
+  summary?: SelectionAggregate<T>[];
+  // Date fields listed as events in the row detail timeline
+  timeline?: TimelineField<T>[];
+  // Scroll through every matching row instead of paging; rows load as they come into view
+  virtualScroll?: boolean;
+  // Runs in an injection context, so actions can `inject()` services; gets the
+  // entity's registered collection to run its bulk calls through
+  actions?: (collection: EntityCollection<T>) => BulkActionDefinition<T>[];
+}
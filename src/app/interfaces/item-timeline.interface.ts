@@ -0,0 +1,10 @@
+import { DataItem } from './data-item.interface';
+
+/** A date field on an entity's items, shown as an event in the row detail timeline. */
+export interface TimelineField<T extends DataItem = DataItem> {
+  // Items without a date in it get no event
+  field: keyof T & string;
+  label: string;
+  // Shown with the event, e.g. the subject of the last notification
+  detail?: (item: T) => string | undefined;
+}
@@ -0,0 +1,15 @@
+import { EntityKey } from './entity-definition.interface';
+
+export type Role = 'viewer' | 'support' | 'manager' | 'admin';
+
+// `<entity>:view` opens a table; the rest match the bulk endpoints they guard
+export type Permission =
+  | `${EntityKey}:view`
+  | 'users:notify'
+  | 'users:status'
+  | 'users:reset-password'
+  | 'orders:process'
+  | 'orders:cancel'
+  | 'orders:refund'
+  | 'products:restock'
+  | 'products:discontinue';
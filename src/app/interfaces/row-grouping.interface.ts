@@ -0,0 +1,39 @@
+import { DataItem } from './data-item.interface';
+
+export interface GroupAggregate<T extends DataItem = DataItem> {
+  label: string;
+  // Numeric field summed over the group's rows
+  field: keyof T & string;
+  format?: (total: number, locale: string) => string;
+}
+
+/**
+ * A way to group table rows, offered in the table's "Group by" select.
+ * Groupings are plain field references so the server can count and total
+ * the groups across every page.
+ */
+export interface RowGrouping<T extends DataItem = DataItem> {
+  key: string;
+  label: string;
+  // Rows with the same value in this field share a group
+  field: keyof T & string;
+  // Groups a date field by calendar month instead of by exact value
+  bucket?: 'month';
+  // Group heading; defaults to the group key
+  heading?: (groupKey: string, locale: string) => string;
+  aggregates?: GroupAggregate<T>[];
+}
+
+export interface RowGroup<T extends DataItem = DataItem> {
+  key: string;
+  rows: T[];
+  // Aggregate totals in the order the grouping lists them
+  totals: number[];
+}
+
+/** A group's row count and aggregate totals over every matching row, not just the loaded ones. */
+export interface RowGroupSummary {
+  key: string;
+  count: number;
+  totals: number[];
+}
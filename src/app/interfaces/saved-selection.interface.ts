@@ -0,0 +1,29 @@
+import { DataFilter } from './data-query.interface';
+
+interface SavedSelectionBase {
+  id: string;
+  name: string;
+  // Collection the selection belongs to, e.g. "users"
+  entityType: string;
+  createdAt: Date;
+}
+
+// A fixed set of rows
+export interface StaticSelection extends SavedSelectionBase {
+  kind: 'static';
+  ids: string[];
+}
+
+// Every row matching the filters at the time it is applied
+export interface RuleSelection extends SavedSelectionBase {
+  kind: 'rule';
+  filters: DataFilter[];
+}
+
+export type SavedSelection = StaticSelection | RuleSelection;
+
+// A field rules can filter on
+export interface RuleField {
+  key: string;
+  label: string;
+}
@@ -0,0 +1,29 @@
+import { DataItem } from './data-item.interface';
+
+// A total or average of a numeric field over the selected items
+export interface SummaryMetric<T extends DataItem = DataItem> {
+  kind: 'sum' | 'average';
+  label: string;
+  value: (item: T) => number;
+  format?: (value: number, locale: string) => string;
+}
+
+// How many selected items fall into each group, e.g. per status
+export interface SummaryBreakdown<T extends DataItem = DataItem> {
+  kind: 'breakdown';
+  label: string;
+  groupBy: (item: T) => string;
+  heading?: (groupKey: string, locale: string) => string;
+}
+
+/** A figure shown next to the selection count in the actions bar. */
+export type SelectionAggregate<T extends DataItem = DataItem> = SummaryMetric<T> | SummaryBreakdown<T>;
+
+export interface BreakdownCount {
+  key: string;
+  count: number;
+}
+
+export type SelectionSummaryEntry<T extends DataItem = DataItem> =
+  | { aggregate: SummaryMetric<T>; value: number }
+  | { aggregate: SummaryBreakdown<T>; counts: BreakdownCount[] };
@@ -0,0 +1,202 @@
+import { Injectable } from '@angular/core';
+import { DataItem } from '../interfaces/data-item.interface';
+import { BulkActionReport, BulkItemResult, BulkUndoHandle } from '../interfaces/bulk-action.interface';
+import { DataQuery, PagedResult, TableQuery } from '../interfaces/data-query.interface';
+import { RowGroupSummary, RowGrouping } from '../interfaces/row-grouping.interface';
+import { StatusMachine } from '../models/status-machine.model';
+import { SelectionScope } from '../models/selection-scope.model';
+import { applyTableQuery, matchesQuery } from '../models/data-query.model';
+import { summarizeGroups } from '../models/row-grouping.model';
+import { createMockOrders, createMockProducts, createMockUsers } from './mock-data';
+
+export interface BulkUpdateRequest<T extends DataItem> {
+  machine: StatusMachine<T>;
+  actionType: string;
+  scope: SelectionScope;
+  failureReason: string;
+  changes: (now: Date, item: T) => Partial<T>;
+  // Status picked by the user, for transitions that offer `targets`
+  targetStatus?: T['status'];
+}
+
+/**
+ * Stands in for the real API: holds every collection in memory and answers
+ * queries and bulk updates synchronously. `mockBackendInterceptor` serves it
+ * over HTTP and adds the network latency.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class InMemoryBackend {
+  // Chance that any single item in a bulk call fails
+  simulatedFailureRate = 0.15;
+  // How long a bulk mutation can be undone after it completes
+  undoWindowMs = 10000;
+
+  private collections = new Map<string, DataItem[]>([
+    ['users', createMockUsers()],
+    ['orders', createMockOrders()],
+    ['products', createMockProducts()]
+  ]);
+  private undoSnapshots = new Map<string, () => BulkItemResult[]>();
+  private undoSequence = 0;
+
+  query<T extends DataItem>(collection: string, query: TableQuery): PagedResult<T> {
+    return applyTableQuery(this.items<T>(collection), query);
+  }
+
+  groupSummaries(collection: string, query: DataQuery, grouping: RowGrouping): RowGroupSummary[] {
+    return summarizeGroups(this.items(collection).filter(item => matchesQuery(item, query)), grouping);
+  }
+
+  resolveIds(collection: string, scope: SelectionScope): string[] {
+    return [...this.resolveScope(this.items(collection), scope)];
+  }
+
+  // Items covered by the scope in collection order; unknown ids are left out
+  itemsInScope<T extends DataItem>(collection: string, scope: SelectionScope): T[] {
+    const items = this.items<T>(collection);
+    const ids = this.resolveScope(items, scope);
+    return items.filter(item => ids.has(item.id));
+  }
+
+  find<T extends DataItem>(collection: string, id: string): T | undefined {
+    return this.items<T>(collection).find(item => item.id === id);
+  }
+
+  /**
+   * Changes a single item outside any bulk call, the way another client
+   * would. Returns the updated item, or undefined when there is none with the id.
+   */
+  updateItem<T extends DataItem>(collection: string, id: string, changes: Partial<T>): T | undefined {
+    let updated: T | undefined;
+    this.collections.set(collection, this.items<T>(collection).map(item => {
+      if (item.id !== id) {
+        return item;
+      }
+      updated = { ...item, ...changes };
+      return updated;
+    }));
+    return updated;
+  }
+
+  /**
+   * Applies a bulk mutation item by item and reports the outcome for each
+   * item in the scope, resolving "all matching" scopes against the whole
+   * collection. Items whose current status does not allow the action are
+   * skipped, and the rest are failed at random according to
+   * `simulatedFailureRate` so partial failures can be exercised in the demo.
+   * The overwritten fields of succeeded items are kept so the call can be undone.
+   */
+  bulkUpdate<T extends DataItem>(collection: string, request: BulkUpdateRequest<T>): BulkActionReport {
+    const { machine, actionType, scope, failureReason, changes } = request;
+    const now = new Date();
+    const targetStatus = machine.targetStatus(actionType, request.targetStatus);
+    const outcomes = new Map<string, BulkItemResult>();
+    const requestedIds = this.resolveScope(this.items<T>(collection), scope);
+    const previousValues = new Map<string, Partial<T>>();
+
+    const updatedItems = this.items<T>(collection).map(item => {
+      if (!requestedIds.has(item.id)) {
+        return item;
+      }
+      if (!machine.canApply(actionType, item, targetStatus)) {
+        outcomes.set(item.id, {
+          id: item.id,
+          name: item.name,
+          outcome: 'skipped',
+          reason: machine.blockedReason(item),
+          statusBefore: item.status,
+          statusAfter: item.status
+        });
+        return item;
+      }
+      if (Math.random() < this.simulatedFailureRate) {
+        outcomes.set(item.id, {
+          id: item.id,
+          name: item.name,
+          outcome: 'failed',
+          reason: failureReason,
+          statusBefore: item.status,
+          statusAfter: item.status
+        });
+        return item;
+      }
+      outcomes.set(item.id, {
+        id: item.id,
+        name: item.name,
+        outcome: 'succeeded',
+        statusBefore: item.status,
+        statusAfter: targetStatus ?? item.status
+      });
+      const updates: Partial<T> = { ...changes(now, item), ...(targetStatus ? { status: targetStatus } : {}) };
+      previousValues.set(item.id, this.pickFields(item, Object.keys(updates) as (keyof T)[]));
+      return { ...item, ...updates };
+    });
+    this.collections.set(collection, updatedItems);
+
+    return {
+      results: [...requestedIds].map(id => outcomes.get(id)
+        ?? { id, name: id, outcome: 'skipped', reason: 'Item no longer exists' }),
+      undo: previousValues.size ? this.registerUndo(collection, previousValues) : undefined
+    };
+  }
+
+  /**
+   * Restores the fields a bulk mutation overwrote on the items it changed,
+   * as long as its undo window has not expired.
+   */
+  undo(token: string): BulkActionReport {
+    const restore = this.undoSnapshots.get(token);
+    if (!restore) {
+      throw new Error('The undo window for this action has expired');
+    }
+    this.undoSnapshots.delete(token);
+    return { results: restore() };
+  }
+
+  private items<T extends DataItem>(collection: string): T[] {
+    const items = this.collections.get(collection);
+    if (!items) {
+      throw new Error(`Unknown collection "${collection}"`);
+    }
+    return items as T[];
+  }
+
+  private resolveScope<T extends DataItem>(items: T[], scope: SelectionScope): Set<string> {
+    if (scope.kind === 'ids') {
+      return new Set(scope.ids);
+    }
+    const excludedIds = new Set(scope.excludedIds);
+    return new Set(items
+      .filter(item => !excludedIds.has(item.id) && matchesQuery(item, scope.query))
+      .map(item => item.id));
+  }
+
+  private registerUndo<T extends DataItem>(collection: string, previousValues: Map<string, Partial<T>>): BulkUndoHandle {
+    const token = `undo-${++this.undoSequence}`;
+    this.undoSnapshots.set(token, () => {
+      const currentItems = this.items<T>(collection);
+      const currentById = new Map(currentItems.map(item => [item.id, item]));
+      this.collections.set(collection, currentItems.map(item => {
+        const previous = previousValues.get(item.id);
+        return previous ? { ...item, ...previous } : item;
+      }));
+      return [...previousValues.keys()].map((id): BulkItemResult => {
+        const item = currentById.get(id);
+        return item
+          ? { id, name: item.name, outcome: 'succeeded' }
+          : { id, name: id, outcome: 'skipped', reason: 'Item no longer exists' };
+      });
+    });
+    setTimeout(() => this.undoSnapshots.delete(token), this.undoWindowMs);
+    return { tokens: [token], expiresAt: new Date(Date.now() + this.undoWindowMs) };
+  }
+
+  // Copies the given fields, including ones that are currently unset
+  private pickFields<T>(item: T, keys: (keyof T)[]): Partial<T> {
+    const picked: Partial<T> = {};
+    keys.forEach(key => picked[key] = item[key]);
+    return picked;
+  }
+}
@@ -0,0 +1,292 @@
+import { inject, InjectionToken, Provider } from '@angular/core';
+import { HttpErrorResponse, HttpInterceptorFn, HttpParams, HttpRequest, HttpResponse } from '@angular/common/http';
+import { mergeMap, of, throwError, timer } from 'rxjs';
+import { DataItem, Order, Product, User } from '../interfaces/data-item.interface';
+import { SortDirection, TableQuery } from '../interfaces/data-query.interface';
+import { BulkActionReport, BulkActionRequest } from '../interfaces/bulk-action.interface';
+import { ActionParams } from '../interfaces/action-params.interface';
+import { RowGrouping } from '../interfaces/row-grouping.interface';
+import { StatusMachine } from '../models/status-machine.model';
+import { ASSIGNABLE_USER_STATUSES, ORDER_STATUS_MACHINE, PRODUCT_STATUS_MACHINE, USER_STATUS_MACHINE } from '../models/status-machines';
+import { SelectionScope } from '../models/selection-scope.model';
+import { DEFAULT_TABLE_QUERY, parseFilter } from '../models/data-query.model';
+import {
+  notificationParams,
+  refundAmount,
+  refundParams,
+  refundParamsError,
+  renderTemplate,
+  restockParams,
+  statusUpdateParams
+} from '../models/action-params.model';
+import { API_BASE_URL } from '../services/data.service';
+import { InMemoryBackend } from './in-memory-backend';
+
+export interface MockBackendConfig {
+  // Delay before answering reads
+  latencyMs: number;
+  // Delay before answering bulk mutations
+  bulkLatencyMs: number;
+  // Chance that any request fails with a 500 response
+  errorRate: number;
+  // Requests that always fail, written as "METHOD /path", e.g. "POST /orders/bulk/refund"
+  failingRoutes: string[];
+  // How often the simulated change feed has another client change an item; 0 turns it off
+  changeIntervalMs: number;
+}
+
+export const DEFAULT_MOCK_BACKEND_CONFIG: MockBackendConfig = {
+  latencyMs: 500,
+  bulkLatencyMs: 2000,
+  errorRate: 0,
+  failingRoutes: [],
+  changeIntervalMs: 0
+};
+
+export const MOCK_BACKEND_CONFIG = new InjectionToken<MockBackendConfig>('MOCK_BACKEND_CONFIG', {
+  providedIn: 'root',
+  factory: () => DEFAULT_MOCK_BACKEND_CONFIG
+});
+
+/**
+ * Configures the mock backend, e.g. to slow it down or make endpoints fail.
+ * Only takes effect together with `mockBackendInterceptor`.
+ */
+export function provideMockBackend(config: Partial<MockBackendConfig> = {}): Provider {
+  return {
+    provide: MOCK_BACKEND_CONFIG,
+    useValue: { ...DEFAULT_MOCK_BACKEND_CONFIG, ...config }
+  };
+}
+
+interface BulkRoute<T extends DataItem> {
+  actionType: string;
+  machine: StatusMachine<T>;
+  failureReason: string;
+  // Rejects the request with a 400 response when this returns an error
+  validate?: (params: ActionParams) => string | null;
+  // Status picked by the caller instead of the status machine's target
+  targetStatus?: (params: ActionParams) => T['status'];
+  changes: (now: Date, item: T, params: ActionParams) => Partial<T>;
+}
+
+// Server-side behaviour of each `POST /<collection>/bulk/<action>` endpoint
+const USER_BULK_ROUTES: Record<string, BulkRoute<User>> = {
+  notify: {
+    actionType: 'sendNotifications',
+    machine: USER_STATUS_MACHINE,
+    failureReason: 'Notification provider rejected the message',
+    validate: params => {
+      const { subject, body } = notificationParams(params);
+      return subject.trim() && body.trim() ? null : 'A subject and body are required';
+    },
+    changes: (now, item, params) => ({
+      lastNotified: now,
+      lastNotificationSubject: renderTemplate(notificationParams(params).subject, item)
+    })
+  },
+  status: {
+    actionType: 'updateStatus',
+    machine: USER_STATUS_MACHINE,
+    failureReason: 'User record is locked by another process',
+    validate: params => ASSIGNABLE_USER_STATUSES.includes(statusUpdateParams(params).status)
+      ? null
+      : `Status must be one of ${ASSIGNABLE_USER_STATUSES.join(', ')}`,
+    targetStatus: params => statusUpdateParams(params).status,
+    changes: now => ({ statusChangedAt: now })
+  },
+  'reset-password': {
+    actionType: 'resetPasswords',
+    machine: USER_STATUS_MACHINE,
+    failureReason: 'Identity provider timed out',
+    changes: now => ({ passwordResetAt: now })
+  }
+};
+
+const ORDER_BULK_ROUTES: Record<string, BulkRoute<Order>> = {
+  process: {
+    actionType: 'processOrders',
+    machine: ORDER_STATUS_MACHINE,
+    failureReason: 'Warehouse system unavailable',
+    changes: now => ({ processedAt: now })
+  },
+  cancel: {
+    actionType: 'cancelOrders',
+    machine: ORDER_STATUS_MACHINE,
+    failureReason: 'Order is already being fulfilled',
+    changes: now => ({ canceledAt: now })
+  },
+  refund: {
+    actionType: 'refundOrders',
+    machine: ORDER_STATUS_MACHINE,
+    failureReason: 'Payment provider declined the refund',
+    validate: params => refundParamsError(refundParams(params)),
+    changes: (now, item, params) => ({ refundedAt: now, refundedAmount: refundAmount(item, refundParams(params)) })
+  }
+};
+
+const PRODUCT_BULK_ROUTES: Record<string, BulkRoute<Product>> = {
+  restock: {
+    actionType: 'restockProducts',
+    machine: PRODUCT_STATUS_MACHINE,
+    failureReason: 'Supplier has no stock left',
+    validate: params => Number.isInteger(restockParams(params).quantity) && restockParams(params).quantity > 0
+      ? null
+      : 'The quantity must be a whole number above zero',
+    changes: (now, item, params) => ({ restockedAt: now, stock: item.stock + restockParams(params).quantity })
+  },
+  discontinue: {
+    actionType: 'discontinueProducts',
+    machine: PRODUCT_STATUS_MACHINE,
+    failureReason: 'Product has open orders',
+    changes: now => ({ discontinuedAt: now })
+  }
+};
+
+type BulkHandler = (backend: InMemoryBackend, collection: string, body: BulkActionRequest) => BulkActionReport;
+
+// Wraps each route so collections with different item types fit in one table
+function bulkHandlers<T extends DataItem>(routes: Record<string, BulkRoute<T>>): Record<string, BulkHandler> {
+  return Object.fromEntries(Object.entries(routes).map(([action, route]): [string, BulkHandler] =>
+    [action, (backend, collection, body) => runBulkRoute(backend, collection, route, body)]));
+}
+
+const BULK_HANDLERS: Record<string, Record<string, BulkHandler>> = {
+  users: bulkHandlers(USER_BULK_ROUTES),
+  orders: bulkHandlers(ORDER_BULK_ROUTES),
+  products: bulkHandlers(PRODUCT_BULK_ROUTES)
+};
+
+class MockHttpError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+/**
+ * Answers requests to `API_BASE_URL` from the in-memory backend instead of
+ * the network, with the latency and failures set in `MOCK_BACKEND_CONFIG`.
+ * Bodies go through JSON both ways, so callers see what a real API returns.
+ *
+ *   GET  /<collection>?page&pageSize&sort&order&filter=field:operator:value
+ *   GET  /<collection>/groups?field&bucket&sum&filter=field:operator:value
+ *   GET  /<collection>/<id>
+ *   POST /<collection>/ids             body: SelectionScope
+ *   POST /<collection>/items           body: SelectionScope
+ *   POST /<collection>/bulk/<action>   body: BulkActionRequest
+ *   POST /undo/<token>
+ */
+export const mockBackendInterceptor: HttpInterceptorFn = (req, next) => {
+  const apiUrl = inject(API_BASE_URL);
+  if (!req.url.startsWith(`${apiUrl}/`)) {
+    return next(req);
+  }
+
+  const config = inject(MOCK_BACKEND_CONFIG);
+  const backend = inject(InMemoryBackend);
+  const path = req.url.slice(apiUrl.length);
+  const latency = req.method === 'GET' ? config.latencyMs : config.bulkLatencyMs;
+
+  return timer(latency).pipe(
+    mergeMap(() => {
+      try {
+        if (config.failingRoutes.includes(`${req.method} ${path}`) || Math.random() < config.errorRate) {
+          throw new MockHttpError(500, 'Simulated server error');
+        }
+        const body = handleRequest(backend, req, path.split('/').filter(Boolean));
+        return of(new HttpResponse({ status: 200, url: req.url, body: JSON.parse(JSON.stringify(body)) }));
+      } catch (error) {
+        return throwError(() => new HttpErrorResponse({
+          status: error instanceof MockHttpError ? error.status : 404,
+          statusText: error instanceof Error ? error.message : 'Not Found',
+          url: req.url,
+          error: { message: error instanceof Error ? error.message : String(error) }
+        }));
+      }
+    })
+  );
+};
+
+function handleRequest(backend: InMemoryBackend, req: HttpRequest<unknown>, segments: string[]): unknown {
+  const [collection, second, third] = segments;
+
+  if (req.method === 'POST' && collection === 'undo' && second && segments.length === 2) {
+    try {
+      return backend.undo(second);
+    } catch (error) {
+      throw new MockHttpError(410, (error as Error).message);
+    }
+  }
+  if (req.method === 'GET' && segments.length === 1) {
+    return backend.query(collection, parseTableQuery(req.params));
+  }
+  if (req.method === 'GET' && second === 'groups' && segments.length === 2) {
+    return backend.groupSummaries(collection, parseTableQuery(req.params), parseGrouping(req.params));
+  }
+  if (req.method === 'GET' && segments.length === 2) {
+    const item = backend.find(collection, second);
+    if (!item) {
+      throw new MockHttpError(404, `No ${collection} item with id "${second}"`);
+    }
+    return item;
+  }
+  if (req.method === 'POST' && second === 'ids' && segments.length === 2) {
+    return backend.resolveIds(collection, req.body as SelectionScope);
+  }
+  if (req.method === 'POST' && second === 'items' && segments.length === 2) {
+    return backend.itemsInScope(collection, req.body as SelectionScope);
+  }
+  if (req.method === 'POST' && second === 'bulk' && third && segments.length === 3) {
+    const handler = BULK_HANDLERS[collection]?.[third];
+    if (handler) {
+      return handler(backend, collection, JSON.parse(JSON.stringify(req.body)) as BulkActionRequest);
+    }
+  }
+  throw new MockHttpError(404, `No route for ${req.method} /${segments.join('/')}`);
+}
+
+function runBulkRoute<T extends DataItem>(
+  backend: InMemoryBackend,
+  collection: string,
+  route: BulkRoute<T>,
+  { scope, params = {} }: BulkActionRequest
+): BulkActionReport {
+  const error = route.validate?.(params);
+  if (error) {
+    throw new MockHttpError(400, error);
+  }
+  return backend.bulkUpdate<T>(collection, {
+    machine: route.machine,
+    actionType: route.actionType,
+    failureReason: route.failureReason,
+    scope,
+    targetStatus: route.targetStatus?.(params),
+    changes: (now, item) => route.changes(now, item, params)
+  });
+}
+
+function parseTableQuery(params: HttpParams): TableQuery {
+  const filters = (params.getAll('filter') ?? []).flatMap(filter => parseFilter(filter) ?? []);
+  return {
+    filters,
+    page: Number(params.get('page') ?? DEFAULT_TABLE_QUERY.page),
+    pageSize: Number(params.get('pageSize') ?? DEFAULT_TABLE_QUERY.pageSize),
+    sortField: params.get('sort') ?? undefined,
+    sortDirection: (params.get('order') as SortDirection | null) ?? undefined
+  };
+}
+
+function parseGrouping(params: HttpParams): RowGrouping {
+  const field = params.get('field');
+  if (!field) {
+    throw new MockHttpError(400, 'A field to group by is required');
+  }
+  const sums = params.getAll('sum') ?? [];
+  return {
+    key: field,
+    label: field,
+    field: field as keyof DataItem & string,
+    bucket: params.get('bucket') === 'month' ? 'month' : undefined,
+    aggregates: sums.map(sum => ({ label: sum, field: sum as keyof DataItem & string }))
+  };
+}
@@ -0,0 +1,102 @@
+import { inject, Injectable, Provider } from '@angular/core';
+import { EMPTY, filter, interval, map, merge, Observable, Subject } from 'rxjs';
+import { DataItem, Order, User } from '../interfaces/data-item.interface';
+import { ChangeFeed, ItemChange } from '../interfaces/change-feed.interface';
+import { ORDER_STATUS_MACHINE, USER_STATUS_MACHINE } from '../models/status-machines';
+import { CHANGE_FEED } from '../services/live-updates.service';
+import { MOCK_BACKEND_CONFIG } from './mock-backend.interceptor';
+import { InMemoryBackend } from './in-memory-backend';
+
+// Other clients only touch the first items, which the default view lists, so their changes show up
+const BUSY_ITEM_COUNT = 50;
+
+interface SimulatedEdit<T extends DataItem> {
+  applies: (item: T) => boolean;
+  changes: (now: Date, item: T) => Partial<T>;
+}
+
+// What other clients do to items while this one is open
+const USER_EDITS: SimulatedEdit<User>[] = [
+  {
+    applies: item => USER_STATUS_MACHINE.canApply('resetPasswords', item),
+    changes: now => ({ status: 'reset', passwordResetAt: now })
+  },
+  {
+    applies: item => item.status === 'active',
+    changes: now => ({ status: 'inactive', statusChangedAt: now })
+  },
+  {
+    applies: item => item.status !== 'active',
+    changes: now => ({ status: 'active', statusChangedAt: now })
+  }
+];
+
+const ORDER_EDITS: SimulatedEdit<Order>[] = [
+  {
+    applies: item => ORDER_STATUS_MACHINE.canApply('processOrders', item),
+    changes: now => ({ status: 'processed', processedAt: now })
+  },
+  {
+    applies: item => ORDER_STATUS_MACHINE.canApply('cancelOrders', item),
+    changes: now => ({ status: 'canceled', canceledAt: now })
+  },
+  {
+    applies: item => ORDER_STATUS_MACHINE.canApply('refundOrders', item),
+    changes: (now, item) => ({ status: 'refunded', refundedAt: now, refundedAmount: item.amount })
+  }
+];
+
+/**
+ * Stands in for the server's change feed: every `changeIntervalMs` another
+ * client changes a random item in the in-memory backend. Changes made
+ * through this client's own requests are not echoed back.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class MockChangeFeed implements ChangeFeed {
+  private backend = inject(InMemoryBackend);
+  private config = inject(MOCK_BACKEND_CONFIG);
+  private simulated = new Subject<ItemChange>();
+
+  connect(): Observable<ItemChange> {
+    const random = this.config.changeIntervalMs > 0
+      ? interval(this.config.changeIntervalMs).pipe(
+        map((): ItemChange | undefined => Math.random() < 0.5
+          ? this.randomChange('users', USER_EDITS)
+          : this.randomChange('orders', ORDER_EDITS)),
+        filter((change): change is ItemChange => change !== undefined)
+      )
+      : EMPTY;
+    // Changes cross the "network" as copies, like the interceptor's responses
+    return merge(this.simulated, random).pipe(map(change => structuredClone(change)));
+  }
+
+  /** Has another client change the item right away, e.g. to try out a specific change. */
+  simulate<T extends DataItem>(collection: string, id: string, changes: Partial<T>): boolean {
+    const item = this.backend.updateItem<T>(collection, id, changes);
+    if (item) {
+      this.simulated.next({ collection, item, changedAt: new Date() });
+    }
+    return item !== undefined;
+  }
+
+  private randomChange<T extends DataItem>(collection: string, edits: SimulatedEdit<T>[]): ItemChange<T> | undefined {
+    const edit = edits[Math.floor(Math.random() * edits.length)];
+    const candidates = this.backend
+      .itemsInScope<T>(collection, { kind: 'allMatching', query: { filters: [] }, total: 0, excludedIds: [] })
+      .filter(edit.applies)
+      .slice(0, BUSY_ITEM_COUNT);
+    if (!candidates.length) {
+      return undefined;
+    }
+    const target = candidates[Math.floor(Math.random() * candidates.length)];
+    const item = this.backend.updateItem<T>(collection, target.id, edit.changes(new Date(), target));
+    return item && { collection, item, changedAt: new Date() };
+  }
+}
+
+/** Feeds `LiveUpdatesService` from the mock backend instead of the server. */
+export function provideMockChangeFeed(): Provider {
+  return { provide: CHANGE_FEED, useExisting: MockChangeFeed };
+}
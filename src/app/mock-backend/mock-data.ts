@@ -0,0 +1,107 @@
+import { Order, Product, User } from '../interfaces/data-item.interface';
+
+const FIRST_NAMES = ['Ava', 'Ben', 'Chloe', 'Dan', 'Emma', 'Finn', 'Grace', 'Henry', 'Isla', 'Jack', 'Kara', 'Liam', 'Maya', 'Noah', 'Olivia', 'Paul'];
+const LAST_NAMES = ['Adams', 'Baker', 'Clark', 'Davis', 'Evans', 'Foster', 'Green', 'Harris', 'Irwin', 'Jones', 'King', 'Lewis', 'Moore', 'Nash'];
+const DEPARTMENTS = ['Engineering', 'Marketing', 'Sales', 'Design', 'Finance', 'Support'];
+const USER_STATUSES: User['status'][] = ['active', 'active', 'active', 'inactive', 'pending'];
+const ORDER_STATUSES: Order['status'][] = ['active', 'active', 'pending', 'inactive', 'processed', 'processed', 'canceled', 'refunded'];
+
+export const MOCK_USER_COUNT = 1240;
+export const MOCK_ORDER_COUNT = 3000;
+export const MOCK_PRODUCT_COUNT = 400;
+
+const PRODUCT_CATEGORIES = ['Audio', 'Cables', 'Storage', 'Displays', 'Accessories'];
+const PRODUCT_NAMES = ['Adapter', 'Charger', 'Dock', 'Drive', 'Headset', 'Hub', 'Keyboard', 'Monitor', 'Mouse', 'Speaker'];
+
+// Small seeded PRNG (mulberry32) so the generated data is the same on every load
+function createRandom(seed: number): () => number {
+  return () => {
+    seed = (seed + 0x6D2B79F5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function pick<T>(random: () => number, values: readonly T[]): T {
+  return values[Math.floor(random() * values.length)];
+}
+
+function dateIn2024(random: () => number): Date {
+  return new Date(Date.UTC(2024, 0, 1) + Math.floor(random() * 200) * 86400000);
+}
+
+export function createMockUsers(): User[] {
+  const users: User[] = [
+    { id: 'u1', name: 'John Doe', email: 'john.doe@example.com', status: 'active', createdAt: new Date('2024-01-15'), type: 'user', department: 'Engineering', lastLogin: new Date('2024-07-10') },
+    { id: 'u2', name: 'Jane Smith', email: 'jane.smith@example.com', status: 'inactive', createdAt: new Date('2024-02-20'), type: 'user', department: 'Marketing', lastLogin: new Date('2024-06-15') },
+    { id: 'u3', name: 'Bob Johnson', email: 'bob.johnson@example.com', status: 'pending', createdAt: new Date('2024-03-10'), type: 'user', department: 'Sales', lastLogin: new Date('2024-07-08') },
+    { id: 'u4', name: 'Alice Wilson', email: 'alice.wilson@example.com', status: 'active', createdAt: new Date('2024-04-05'), type: 'user', department: 'Engineering', lastLogin: new Date('2024-07-11') },
+    { id: 'u5', name: 'Charlie Brown', email: 'charlie.brown@example.com', status: 'active', createdAt: new Date('2024-05-12'), type: 'user', department: 'Design', lastLogin: new Date('2024-07-09') }
+  ];
+
+  const random = createRandom(1);
+  for (let index = users.length + 1; index <= MOCK_USER_COUNT; index++) {
+    const first = pick(random, FIRST_NAMES);
+    const last = pick(random, LAST_NAMES);
+    const createdAt = dateIn2024(random);
+    users.push({
+      id: `u${index}`,
+      name: `${first} ${last}`,
+      email: `${first}.${last}${index}@example.com`.toLowerCase(),
+      status: pick(random, USER_STATUSES),
+      createdAt,
+      type: 'user',
+      department: pick(random, DEPARTMENTS),
+      lastLogin: new Date(createdAt.getTime() + Math.floor(random() * 60) * 86400000)
+    });
+  }
+  return users;
+}
+
+export function createMockOrders(): Order[] {
+  const orders: Order[] = [
+    { id: 'o1', name: 'Order #1001', email: 'customer1@example.com', status: 'active', createdAt: new Date('2024-07-01'), type: 'order', amount: 299.99, orderDate: new Date('2024-07-01') },
+    { id: 'o2', name: 'Order #1002', email: 'customer2@example.com', status: 'pending', createdAt: new Date('2024-07-03'), type: 'order', amount: 149.50, orderDate: new Date('2024-07-03') },
+    { id: 'o3', name: 'Order #1003', email: 'customer3@example.com', status: 'inactive', createdAt: new Date('2024-07-05'), type: 'order', amount: 599.99, orderDate: new Date('2024-07-05') },
+    { id: 'o4', name: 'Order #1004', email: 'customer4@example.com', status: 'active', createdAt: new Date('2024-07-08'), type: 'order', amount: 89.99, orderDate: new Date('2024-07-08') }
+  ];
+
+  const random = createRandom(2);
+  for (let index = orders.length + 1; index <= MOCK_ORDER_COUNT; index++) {
+    const orderDate = dateIn2024(random);
+    orders.push({
+      id: `o${index}`,
+      name: `Order #${1000 + index}`,
+      email: `customer${index}@example.com`,
+      status: pick(random, ORDER_STATUSES),
+      createdAt: orderDate,
+      type: 'order',
+      amount: Math.round(random() * 100000) / 100,
+      orderDate
+    });
+  }
+  return orders;
+}
+
+export function createMockProducts(): Product[] {
+  const random = createRandom(3);
+  const products: Product[] = [];
+  for (let index = 1; index <= MOCK_PRODUCT_COUNT; index++) {
+    const category = pick(random, PRODUCT_CATEGORIES);
+    // Skewed towards well stocked products
+    const stock = random() < 0.2 ? Math.floor(random() * 10) : 10 + Math.floor(random() * 490);
+    products.push({
+      id: `p${index}`,
+      name: `${category} ${pick(random, PRODUCT_NAMES)} ${index}`,
+      status: random() < 0.05 ? 'discontinued' : stock === 0 ? 'out-of-stock' : stock < 10 ? 'low-stock' : 'active',
+      createdAt: dateIn2024(random),
+      type: 'product',
+      sku: `SKU-${String(index).padStart(5, '0')}`,
+      category,
+      price: Math.round(random() * 50000) / 100,
+      stock
+    });
+  }
+  return products;
+}
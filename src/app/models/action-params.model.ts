@@ -0,0 +1,69 @@
+import { DataItem, Order } from '../interfaces/data-item.interface';
+import {
+  ActionParams,
+  NotificationParams,
+  RefundMode,
+  RefundParams,
+  RestockParams,
+  StatusUpdateParams
+} from '../interfaces/action-params.interface';
+
+const TEMPLATE_PLACEHOLDER = /\{\{\s*(\w+)\s*\}\}/g;
+
+/** Replaces `{{field}}` placeholders with the item's values. */
+export function renderTemplate(template: string, item: DataItem): string {
+  return template.replace(TEMPLATE_PLACEHOLDER, (placeholder, field: string) => {
+    const value = (item as unknown as Record<string, unknown>)[field];
+    return value === undefined || value === null ? placeholder : String(value);
+  });
+}
+
+export function unknownTemplateFields(template: string, allowedFields: string[]): string[] {
+  return [...template.matchAll(TEMPLATE_PLACEHOLDER)]
+    .map(match => match[1])
+    .filter(field => !allowedFields.includes(field));
+}
+
+export function refundParamsError(params: RefundParams): string | null {
+  if (params.mode === 'full') {
+    return null;
+  }
+  if (params.value === undefined || !(params.value > 0)) {
+    return 'Enter a refund value greater than zero';
+  }
+  if (params.mode === 'percentage' && params.value > 100) {
+    return 'A refund cannot exceed 100% of the order';
+  }
+  return params.mode === 'amount' || params.mode === 'percentage' ? null : `Unknown refund mode "${params.mode}"`;
+}
+
+/** Amount refunded for an order, never more than the order amount. */
+export function refundAmount(order: Order, params: RefundParams): number {
+  switch (params.mode) {
+    case 'full':
+      return order.amount;
+    case 'amount':
+      return Math.min(params.value ?? 0, order.amount);
+    case 'percentage':
+      return Math.round(order.amount * (params.value ?? 0)) / 100;
+  }
+}
+
+// Typed views of the values collected by an action's parameter form
+
+export function statusUpdateParams(params: ActionParams = {}): StatusUpdateParams {
+  return { status: String(params['status'] ?? '') as StatusUpdateParams['status'] };
+}
+
+export function notificationParams(params: ActionParams = {}): NotificationParams {
+  return { subject: String(params['subject'] ?? ''), body: String(params['body'] ?? '') };
+}
+
+export function refundParams(params: ActionParams = {}): RefundParams {
+  const mode = (params['mode'] ?? 'full') as RefundMode;
+  return mode === 'full' ? { mode } : { mode, value: Number(params['value']) };
+}
+
+export function restockParams(params: ActionParams = {}): RestockParams {
+  return { quantity: Number(params['quantity'] ?? 0) };
+}
@@ -0,0 +1,55 @@
+import { BulkActionMessages, BulkActionReport, BulkItemOutcome, BulkItemResult } from '../interfaces/bulk-action.interface';
+
+export type BulkOutcomeCounts = Record<BulkItemOutcome, number>;
+
+export function countOutcomes(report: BulkActionReport): BulkOutcomeCounts {
+  const counts: BulkOutcomeCounts = { succeeded: 0, failed: 0, skipped: 0 };
+  report.results.forEach(result => counts[result.outcome]++);
+  return counts;
+}
+
+export function resultsWithOutcome(report: BulkActionReport, outcome: BulkItemOutcome): BulkItemResult[] {
+  return report.results.filter(result => result.outcome === outcome);
+}
+
+/**
+ * Combines the reports of several requests into one, e.g. the batches of a
+ * job. The undo handle covers every batch and expires with the earliest one.
+ */
+export function mergeReports(reports: BulkActionReport[]): BulkActionReport {
+  const handles = reports.flatMap(report => report.undo ? [report.undo] : []);
+  const conflicts = reports.flatMap(report => report.conflicts ?? []);
+  return {
+    results: reports.flatMap(report => report.results),
+    conflicts: conflicts.length ? conflicts : undefined,
+    undo: handles.length
+      ? {
+        tokens: handles.flatMap(handle => handle.tokens),
+        expiresAt: new Date(Math.min(...handles.map(handle => handle.expiresAt.getTime())))
+      }
+      : undefined
+  };
+}
+
+/**
+ * Builds the snackbar summary for a report, e.g. "3 of 5 refunded, 2 failed".
+ */
+export function summarizeReport(report: BulkActionReport, messages: BulkActionMessages): string {
+  const counts = countOutcomes(report);
+  const total = report.results.length;
+  if (counts.succeeded === total) {
+    return messages.success;
+  }
+
+  const parts = [`${counts.succeeded} of ${total} ${messages.pastTense}`];
+  if (counts.failed) {
+    parts.push(`${counts.failed} failed`);
+  }
+  if (counts.skipped) {
+    parts.push(`${counts.skipped} skipped`);
+  }
+  if (report.conflicts?.length) {
+    parts.push(`${report.conflicts.length} changed by someone else`);
+  }
+  return parts.join(', ');
+}
@@ -0,0 +1,38 @@
+import { formatCurrency, formatDate, getCurrencySymbol } from '@angular/common';
+import { DataItem } from '../interfaces/data-item.interface';
+import { ColumnDef } from '../interfaces/column-def.interface';
+
+// Formatters for `ColumnDef.format` that mirror the date, currency and titlecase pipes
+
+export function formatAsDate(format = 'short') {
+  return (value: unknown, _item: unknown, locale: string): string =>
+    value instanceof Date || typeof value === 'string' || typeof value === 'number'
+      ? formatDate(value, format, locale)
+      : '';
+}
+
+export function formatAsCurrency(currencyCode = 'USD') {
+  return (value: unknown, _item: unknown, locale: string): string =>
+    typeof value === 'number'
+      ? formatCurrency(value, locale, getCurrencySymbol(currencyCode, 'wide', locale), currencyCode)
+      : '';
+}
+
+export function formatAsTitleCase(value: unknown): string {
+  return String(value ?? '').replace(/\w\S*/g, word => word[0].toUpperCase() + word.slice(1).toLowerCase());
+}
+
+export function columnValue<T extends DataItem>(column: ColumnDef<T>, item: T): unknown {
+  return column.accessor
+    ? column.accessor(item)
+    : (item as unknown as Record<string, unknown>)[column.key];
+}
+
+// The text a column shows for an item, shared by the table and exports
+export function formatColumnValue<T extends DataItem>(column: ColumnDef<T>, item: T, locale: string): string {
+  const value = columnValue(column, item);
+  if (column.format) {
+    return column.format(value, item, locale);
+  }
+  return value === null || value === undefined ? '' : String(value);
+}
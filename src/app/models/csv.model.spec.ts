@@ -0,0 +1,21 @@
+import { idsFromCsv, parseCsv, toCsv } from './csv.model';
+
+describe('csv model', () => {
+  it('quotes fields containing separators, quotes and line breaks', () => {
+    expect(toCsv([['Name', 'Note'], ['Smith, Jane', 'Said "hi"\nthen left']]))
+      .toBe('Name,Note\r\n"Smith, Jane","Said ""hi""\nthen left"');
+  });
+
+  it('parses what it writes', () => {
+    const rows = [['a,b', 'c"d'], ['', 'line\r\nbreak']];
+    expect(parseCsv(toCsv(rows))).toEqual(rows);
+  });
+
+  it('reads ids from the "id" column when the header has one', () => {
+    expect(idsFromCsv('name,ID\r\nJane,u-1\r\nJohn,u-2\r\n')).toEqual(['u-1', 'u-2']);
+  });
+
+  it('falls back to the first column and drops blanks and duplicates', () => {
+    expect(idsFromCsv('﻿u-1\n\nu-2,extra\nu-1\n  u-3  ')).toEqual(['u-1', 'u-2', 'u-3']);
+  });
+});
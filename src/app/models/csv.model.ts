@@ -0,0 +1,65 @@
+// Minimal RFC 4180 CSV reading and writing for table exports and id imports
+
+function escapeCsvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export function toCsv(rows: string[][]): string {
+  return rows.map(row => row.map(escapeCsvField).join(',')).join('\r\n');
+}
+
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+/**
+ * Reads the ids from a CSV file: the "id" column when there is a header
+ * naming one, otherwise the first column. Blank and duplicate ids are dropped.
+ */
+export function idsFromCsv(text: string): string[] {
+  const rows = parseCsv(text.replace(/^﻿/, ''));
+  const header = (rows[0] ?? []).map(cell => cell.trim().toLowerCase());
+  const idColumn = header.indexOf('id');
+  const dataRows = idColumn >= 0 ? rows.slice(1) : rows;
+  const ids = dataRows
+    .map(row => (row[Math.max(idColumn, 0)] ?? '').trim())
+    .filter(id => id !== '');
+  return [...new Set(ids)];
+}
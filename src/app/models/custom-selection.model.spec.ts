@@ -0,0 +1,94 @@
+import { User } from '../interfaces/data-item.interface';
+import { CustomSelectionModel } from './custom-selection.model';
+import { user } from '../testing/fixtures';
+
+describe('CustomSelectionModel', () => {
+  let selection: CustomSelectionModel<User>;
+
+  beforeEach(() => {
+    selection = new CustomSelectionModel<User>(true, []);
+  });
+
+  it('should compare items by id', () => {
+    selection.select(user('u1'));
+    expect(selection.isSelected(user('u1'))).toBeTrue();
+
+    selection.deselect(user('u1'));
+    expect(selection.selected.length).toBe(0);
+  });
+
+  describe('reconcile', () => {
+    it('should swap in fresh objects for ids that still exist', () => {
+      const previous = [user('u1'), user('u2')];
+      selection.select(...previous);
+      const current = [user('u1', 'updated'), user('u2', 'reset')];
+
+      const dropped = selection.reconcile(previous, current);
+
+      expect(dropped).toBe(0);
+      expect(selection.selected).toEqual(jasmine.arrayWithExactContents(current));
+      expect(selection.selected.every(item => current.includes(item))).toBeTrue();
+    });
+
+    it('should drop ids that vanished from the refreshed rows', () => {
+      const previous = [user('u1'), user('u2'), user('u3')];
+      selection.select(previous[0], previous[1]);
+
+      const dropped = selection.reconcile(previous, [user('u1'), user('u3')]);
+
+      expect(dropped).toBe(1);
+      expect(selection.selected.map(item => item.id)).toEqual(['u1']);
+    });
+
+    it('should keep selected ids that were not part of the refreshed rows', () => {
+      const otherPage = user('u9');
+      selection.select(otherPage, user('u1'));
+
+      const dropped = selection.reconcile([user('u1')], [user('u1')]);
+
+      expect(dropped).toBe(0);
+      expect(selection.selected.map(item => item.id)).toEqual(jasmine.arrayWithExactContents(['u9', 'u1']));
+    });
+
+    it('should emit a single change event', () => {
+      const previous = [user('u1'), user('u2')];
+      selection.select(...previous);
+      const changed = jasmine.createSpy('changed');
+      selection.changed.subscribe(changed);
+
+      selection.reconcile(previous, [user('u1')]);
+
+      expect(changed).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('all matching', () => {
+    beforeEach(() => {
+      selection.select(user('u1'));
+      selection.selectAllMatching({ filters: [] }, 100);
+    });
+
+    it('should treat unloaded rows as selected', () => {
+      expect(selection.isSelected(user('u50'))).toBeTrue();
+      expect(selection.scope).toEqual({ kind: 'allMatching', query: { filters: [] }, total: 100, excludedIds: [] });
+    });
+
+    it('should track deselected rows as exclusions', () => {
+      selection.deselect(user('u2'));
+      selection.toggle(user('u3'));
+
+      expect(selection.isSelected(user('u2'))).toBeFalse();
+      expect(selection.scope).toEqual(jasmine.objectContaining({ excludedIds: ['u2', 'u3'] }));
+
+      selection.select(user('u2'));
+      expect(selection.scope).toEqual(jasmine.objectContaining({ excludedIds: ['u3'] }));
+    });
+
+    it('should go back to explicit ids when cleared', () => {
+      selection.clear();
+
+      expect(selection.isAllMatching).toBeFalse();
+      expect(selection.scope).toEqual({ kind: 'ids', ids: [] });
+    });
+  });
+});
@@ -1,12 +1,197 @@
 import { SelectionModel } from '@angular/cdk/collections';
 import { DataItem } from '../interfaces/data-item.interface';
+import { DataQuery } from '../interfaces/data-query.interface';
+import { SelectionScope } from './selection-scope.model';
 
+interface MatchingSelection {
+  query: DataQuery;
+  total: number;
+  excludedIds: Set<string>;
+}
+
+/**
+ * Selection keyed by item id. Every lookup goes through an id index, so
+ * `isSelected`, `select`, `deselect` and `toggle` stay constant-time per item
+ * however many rows are selected, instead of scanning the selection.
+ */
 export class CustomSelectionModel<T extends DataItem> extends SelectionModel<T> {
-  constructor(multiple = false, initiallySelectedValues?: T[], emitChanges = true) {
-    super(multiple, initiallySelectedValues, emitChanges);
+  // Selected rows by id, in the order they were selected
+  private byId = new Map<string, T>();
+  private selectedCache: T[] | null = null;
+  // Set while every row matching a query is selected, minus the excluded ids
+  private matching: MatchingSelection | null = null;
+  private cachedScope: SelectionScope | null = null;
+
+  constructor(private multiple = false, initiallySelectedValues: T[] = [], private emitChanges = true) {
+    // The base class only provides the change stream; this class keeps the selection itself
+    super(multiple, [], emitChanges);
+    const initial = multiple ? initiallySelectedValues : initiallySelectedValues.slice(0, 1);
+    initial.forEach(item => this.byId.set(item.id, item));
+  }
+
+  override get selected(): T[] {
+    this.selectedCache ??= [...this.byId.values()];
+    return this.selectedCache;
+  }
+
+  get isAllMatching(): boolean {
+    return this.matching !== null;
+  }
+
+  /** What a bulk action should target, including rows that are not loaded. */
+  get scope(): SelectionScope {
+    if (!this.cachedScope) {
+      this.cachedScope = this.matching
+        ? {
+          kind: 'allMatching',
+          query: this.matching.query,
+          total: this.matching.total,
+          excludedIds: [...this.matching.excludedIds]
+        }
+        : { kind: 'ids', ids: [...this.byId.keys()] };
+    }
+    return this.cachedScope;
   }
 
   override isSelected(item: T): boolean {
-    return this.selected.some(selectedItem => selectedItem.id === item.id);
+    if (this.matching) {
+      return !this.matching.excludedIds.has(item.id);
+    }
+    return this.byId.has(item.id);
+  }
+
+  override isEmpty(): boolean {
+    return !this.matching && this.byId.size === 0;
+  }
+
+  override hasValue(): boolean {
+    return !this.isEmpty();
+  }
+
+  /**
+   * Switches to selecting every row matching the query, whether or not it is
+   * loaded. Rows deselected afterwards are tracked as exclusions, and
+   * `selected` stops tracking changes until the selection is cleared.
+   */
+  selectAllMatching(query: DataQuery, total: number) {
+    this.matching = { query, total, excludedIds: new Set() };
+    this.cachedScope = null;
+    this.changed.next({ source: this, added: [], removed: [] });
+  }
+
+  /**
+   * Reconciles the selection with freshly loaded rows instead of clearing it.
+   * Selected ids found in `currentRows` are swapped for the fresh objects,
+   * ids that were in `previousRows` but are gone now are dropped, and ids
+   * outside both (e.g. on other pages) are kept as they are.
+   * Returns the number of dropped ids.
+   */
+  reconcile(previousRows: T[], currentRows: T[]): number {
+    if (this.matching || !this.byId.size) {
+      return 0;
+    }
+
+    const currentById = new Map(currentRows.map(row => [row.id, row]));
+    const previousIds = new Set(previousRows.map(row => row.id));
+    const kept = new Map<string, T>();
+    const removed: T[] = [];
+    const added: T[] = [];
+    let dropped = 0;
+    this.byId.forEach((row, id) => {
+      const fresh = currentById.get(id);
+      if (fresh) {
+        kept.set(id, fresh);
+        if (fresh !== row) {
+          removed.push(row);
+          added.push(fresh);
+        }
+      } else if (previousIds.has(id)) {
+        removed.push(row);
+        dropped++;
+      } else {
+        kept.set(id, row);
+      }
+    });
+
+    // The swap goes out as a single change event
+    this.byId = kept;
+    this.emit(added, removed);
+    return dropped;
+  }
+
+  override select(...values: T[]): boolean {
+    this.cachedScope = null;
+    if (this.matching) {
+      const added = values.filter(value => this.matching!.excludedIds.delete(value.id));
+      return this.emit(added, []);
+    }
+
+    const removed = this.multiple ? [] : this.selected.filter(row => values[0] && row.id !== values[0].id);
+    removed.forEach(row => this.byId.delete(row.id));
+    const added = (this.multiple ? values : values.slice(0, 1)).filter(value => {
+      if (this.byId.has(value.id)) {
+        return false;
+      }
+      this.byId.set(value.id, value);
+      return true;
+    });
+    return this.emit(added, removed);
+  }
+
+  override deselect(...values: T[]): boolean {
+    this.cachedScope = null;
+    if (this.matching) {
+      const removed = values.filter(value => !this.matching!.excludedIds.has(value.id));
+      removed.forEach(value => this.matching!.excludedIds.add(value.id));
+      return this.emit([], removed);
+    }
+
+    const removed = values.flatMap(value => {
+      const row = this.byId.get(value.id);
+      return row && this.byId.delete(value.id) ? [row] : [];
+    });
+    return this.emit([], removed);
+  }
+
+  override setSelection(...values: T[]): boolean {
+    const wanted = new Set(values.map(value => value.id));
+    const removed = this.selected.filter(row => !wanted.has(row.id));
+    removed.forEach(row => this.byId.delete(row.id));
+    this.matching = null;
+    this.cachedScope = null;
+    const added = values.filter(value => {
+      if (this.byId.has(value.id)) {
+        return false;
+      }
+      this.byId.set(value.id, value);
+      return true;
+    });
+    return this.emit(added, removed);
+  }
+
+  override clear(flushEvent = true): boolean {
+    const wasMatching = this.matching !== null;
+    const removed = this.selected;
+    this.matching = null;
+    this.cachedScope = null;
+    this.byId = new Map();
+    this.selectedCache = null;
+    const changed = removed.length > 0 || wasMatching;
+    if (changed && flushEvent && this.emitChanges) {
+      this.changed.next({ source: this, added: [], removed });
+    }
+    return changed;
+  }
+
+  private emit(added: T[], removed: T[]): boolean {
+    const changed = added.length > 0 || removed.length > 0;
+    if (changed) {
+      this.selectedCache = null;
+      this.cachedScope = null;
+      if (this.emitChanges) {
+        this.changed.next({ source: this, added, removed });
+      }
+    }
+    return changed;
   }
-}
\ No newline at end of file
+}
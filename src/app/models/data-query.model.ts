@@ -0,0 +1,85 @@
+import { DataItem } from '../interfaces/data-item.interface';
+import { DataFilter, DataQuery, FilterOperator, PagedResult, TableQuery } from '../interfaces/data-query.interface';
+
+export const DEFAULT_TABLE_QUERY: TableQuery = { filters: [], page: 0, pageSize: 10 };
+
+// Narrows a table to a single row, e.g. when following a link to it
+export function queryForRow(id: string | null): TableQuery {
+  return id ? { ...DEFAULT_TABLE_QUERY, filters: [{ field: 'id', operator: 'eq', value: id }] } : DEFAULT_TABLE_QUERY;
+}
+
+const FILTER_OPERATORS: FilterOperator[] = ['eq', 'contains', 'gt', 'lt'];
+
+// Filters travel as `field:operator:value` in API and page URLs
+export function formatFilter(filter: DataFilter): string {
+  return `${filter.field}:${filter.operator}:${filter.value}`;
+}
+
+export function parseFilter(text: string): DataFilter | null {
+  const [field, operator, ...value] = text.split(':');
+  if (!field || !FILTER_OPERATORS.includes(operator as FilterOperator)) {
+    return null;
+  }
+  return { field, operator: operator as FilterOperator, value: value.join(':') };
+}
+
+function fieldValue(item: DataItem, field: string): unknown {
+  return (item as unknown as Record<string, unknown>)[field];
+}
+
+function comparable(value: unknown): string | number {
+  if (value instanceof Date) {
+    return value.getTime();
+  }
+  return typeof value === 'number' ? value : String(value ?? '').toLowerCase();
+}
+
+// Coerces the filter value to the type of the field it is compared with
+function expectedValue(actual: unknown, value: string | number): string | number {
+  if (actual instanceof Date) {
+    return new Date(value).getTime();
+  }
+  return typeof actual === 'number' ? Number(value) : comparable(value);
+}
+
+export function matchesFilter(item: DataItem, filter: DataFilter): boolean {
+  const raw = fieldValue(item, filter.field);
+  const actual = comparable(raw);
+  const expected = expectedValue(raw, filter.value);
+  switch (filter.operator) {
+    case 'eq':
+      return actual === expected;
+    case 'contains':
+      return String(actual).includes(String(expected));
+    case 'gt':
+      return actual > expected;
+    case 'lt':
+      return actual < expected;
+  }
+}
+
+export function matchesQuery(item: DataItem, query: DataQuery): boolean {
+  return query.filters.every(filter => matchesFilter(item, filter));
+}
+
+export function sameFilters(a: DataQuery, b: DataQuery): boolean {
+  return JSON.stringify(a.filters) === JSON.stringify(b.filters);
+}
+
+/**
+ * Filters, sorts and pages items the way the backend answers a table query.
+ */
+export function applyTableQuery<T extends DataItem>(items: T[], query: TableQuery): PagedResult<T> {
+  const matching = items.filter(item => matchesQuery(item, query));
+  const { sortField, sortDirection } = query;
+  if (sortField && sortDirection) {
+    const factor = sortDirection === 'asc' ? 1 : -1;
+    matching.sort((a, b) => {
+      const left = comparable(fieldValue(a, sortField));
+      const right = comparable(fieldValue(b, sortField));
+      return left < right ? -factor : left > right ? factor : 0;
+    });
+  }
+  const start = query.page * query.pageSize;
+  return { items: matching.slice(start, start + query.pageSize), total: matching.length };
+}
@@ -0,0 +1,36 @@
+import { DataItem } from '../interfaces/data-item.interface';
+import { AuditEntry } from '../interfaces/audit-entry.interface';
+import { TimelineField } from '../interfaces/item-timeline.interface';
+
+export interface TimelineEvent {
+  label: string;
+  at: Date;
+  detail?: string;
+  // Recorded bulk action runs, as opposed to timestamps on the item itself
+  fromAuditLog: boolean;
+}
+
+/**
+ * Lists what happened to an item, most recent first: the timestamps its
+ * entity lists in `fields` plus every audit logged bulk action that included it.
+ */
+export function itemTimeline<T extends DataItem>(item: T, fields: TimelineField<T>[], auditEntries: AuditEntry[]): TimelineEvent[] {
+  const events: TimelineEvent[] = fields.flatMap(({ field, label, detail }) => {
+    const at: unknown = item[field];
+    return at instanceof Date ? [{ label, at, detail: detail?.(item), fromAuditLog: false }] : [];
+  });
+
+  auditEntries.forEach(entry => {
+    const result = entry.items.find(itemResult => itemResult.id === item.id);
+    if (result) {
+      events.push({
+        label: entry.actionLabel,
+        at: entry.timestamp,
+        detail: result.reason ? `${result.outcome}: ${result.reason}` : result.outcome,
+        fromAuditLog: true
+      });
+    }
+  });
+
+  return events.sort((a, b) => b.at.getTime() - a.at.getTime());
+}
@@ -0,0 +1,25 @@
+// Storage can be full or disabled, so failures only warn and the state lives on for the session
+
+/** Saves `value` as JSON under `key`; `what` names it in the warning, e.g. "the audit log". */
+export function persistJson(key: string, value: unknown, what: string) {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch (error) {
+    console.warn(`Could not persist ${what}:`, error);
+  }
+}
+
+/**
+ * Reads the JSON saved under `key` and passes it through `revive`, e.g. to
+ * turn timestamps back into dates. Returns `fallback` when nothing is saved
+ * or what is saved can't be read.
+ */
+export function restoreJson<T>(key: string, what: string, fallback: T, revive: (stored: T) => T = stored => stored): T {
+  try {
+    const stored = localStorage.getItem(key);
+    return stored ? revive(JSON.parse(stored)) : fallback;
+  } catch (error) {
+    console.warn(`Could not restore ${what}:`, error);
+    return fallback;
+  }
+}
@@ -0,0 +1,39 @@
+import { Permission, Role } from '../interfaces/permission.interface';
+
+export const ROLES: Role[] = ['viewer', 'support', 'manager', 'admin'];
+
+export const ROLE_LABELS: Record<Role, string> = {
+  viewer: 'Viewer',
+  support: 'Support',
+  manager: 'Manager',
+  admin: 'Admin'
+};
+
+const VIEW: Permission[] = ['users:view', 'orders:view', 'products:view'];
+
+// Support only works on accounts, managers handle orders and stock; only admins can do everything
+export const ROLE_PERMISSIONS: Record<Role, readonly Permission[]> = {
+  viewer: VIEW,
+  support: ['users:view', 'users:notify', 'users:reset-password'],
+  manager: [
+    ...VIEW,
+    'users:notify',
+    'users:status',
+    'orders:process',
+    'orders:cancel',
+    'orders:refund',
+    'products:restock',
+    'products:discontinue'
+  ],
+  admin: [
+    ...VIEW,
+    'users:notify',
+    'users:status',
+    'users:reset-password',
+    'orders:process',
+    'orders:cancel',
+    'orders:refund',
+    'products:restock',
+    'products:discontinue'
+  ]
+};
@@ -0,0 +1,59 @@
+import { Order } from '../interfaces/data-item.interface';
+import { RowGrouping } from '../interfaces/row-grouping.interface';
+import { groupFilters, groupRows, monthKey, summarizeGroups } from './row-grouping.model';
+import { matchesQuery } from './data-query.model';
+import { order } from '../testing/fixtures';
+
+describe('row grouping model', () => {
+  const byStatus: RowGrouping<Order> = {
+    key: 'status',
+    label: 'Status',
+    field: 'status',
+    aggregates: [{ label: 'Total', field: 'amount' }]
+  };
+  const byMonth: RowGrouping<Order> = { key: 'orderMonth', label: 'Order month', field: 'orderDate', bucket: 'month' };
+
+  it('orders groups by first appearance and keeps row order within them', () => {
+    const rows = [
+      order('o1', 'pending', 10, '2024-03-01'),
+      order('o2', 'active', 20, '2024-03-02'),
+      order('o3', 'pending', 5, '2024-04-01')
+    ];
+    const groups = groupRows(rows, byStatus);
+    expect(groups.map(group => group.key)).toEqual(['pending', 'active']);
+    expect(groups[0].rows.map(row => row.id)).toEqual(['o1', 'o3']);
+  });
+
+  it('sums each aggregate over the group', () => {
+    const groups = groupRows([order('o1', 'pending', 10.5, '2024-03-01'), order('o2', 'pending', 4.5, '2024-03-02')], byStatus);
+    expect(groups[0].totals).toEqual([15]);
+  });
+
+  it('counts and totals every group for the server', () => {
+    const rows = [order('o1', 'pending', 10), order('o2', 'active', 20), order('o3', 'pending', 5)];
+    expect(summarizeGroups(rows, byStatus)).toEqual([
+      { key: 'pending', count: 2, totals: [15] },
+      { key: 'active', count: 1, totals: [20] }
+    ]);
+  });
+
+  it('narrows a query to exactly the rows of a group', () => {
+    const rows = [
+      order('o1', 'pending', 10, '2024-02-29T23:59:59'),
+      order('o2', 'pending', 10, '2024-03-01T00:00:00'),
+      order('o3', 'pending', 10, '2024-03-31T23:59:59'),
+      order('o4', 'pending', 10, '2024-04-01T00:00:00')
+    ];
+    const march = rows.filter(row => matchesQuery(row, { filters: groupFilters(byMonth, '2024-03') }));
+    expect(march.map(row => row.id)).toEqual(['o2', 'o3']);
+    expect(groupRows(rows, byMonth).find(group => group.key === '2024-03')?.rows).toEqual(march);
+
+    const pending = rows.filter(row => matchesQuery(row, { filters: groupFilters(byStatus, 'pending') }));
+    expect(pending.length).toBe(4);
+  });
+
+  it('keys months so they sort chronologically', () => {
+    expect(monthKey(new Date(2024, 2, 31))).toBe('2024-03');
+    expect(monthKey(new Date(2023, 11, 1)) < monthKey(new Date(2024, 0, 1))).toBeTrue();
+  });
+});
@@ -0,0 +1,56 @@
+import { DataItem } from '../interfaces/data-item.interface';
+import { DataFilter } from '../interfaces/data-query.interface';
+import { RowGroup, RowGroupSummary, RowGrouping } from '../interfaces/row-grouping.interface';
+
+// Key of the group a row falls in
+export function groupKey<T extends DataItem>(item: T, grouping: RowGrouping<T>): string {
+  const value: unknown = item[grouping.field];
+  return grouping.bucket === 'month' ? monthKey(value as Date) : String(value);
+}
+
+/**
+ * Splits the rows into groups, ordered by where each group first appears so
+ * the table's sort carries over; rows keep their order within a group.
+ */
+export function groupRows<T extends DataItem>(rows: readonly T[], grouping: RowGrouping<T>): RowGroup<T>[] {
+  const groups = new Map<string, T[]>();
+  for (const row of rows) {
+    const key = groupKey(row, grouping);
+    const members = groups.get(key);
+    if (members) {
+      members.push(row);
+    } else {
+      groups.set(key, [row]);
+    }
+  }
+  const aggregates = grouping.aggregates ?? [];
+  return [...groups].map(([key, members]) => ({
+    key,
+    rows: members,
+    totals: aggregates.map(aggregate => members.reduce((sum, row) => sum + Number(row[aggregate.field]), 0))
+  }));
+}
+
+// What the server answers for `GET /<collection>/groups`
+export function summarizeGroups<T extends DataItem>(items: readonly T[], grouping: RowGrouping<T>): RowGroupSummary[] {
+  return groupRows(items, grouping).map(({ key, rows, totals }) => ({ key, count: rows.length, totals }));
+}
+
+// Filters that narrow a query to the rows of one group, e.g. to select all of them
+export function groupFilters<T extends DataItem>(grouping: RowGrouping<T>, key: string): DataFilter[] {
+  if (grouping.bucket === 'month') {
+    const [year, month] = key.split('-').map(Number);
+    const start = new Date(year, month - 1, 1);
+    return [
+      // Filters only compare strictly, so the month starts right after the previous one ends
+      { field: grouping.field, operator: 'gt', value: new Date(start.getTime() - 1).toISOString() },
+      { field: grouping.field, operator: 'lt', value: new Date(year, month, 1).toISOString() }
+    ];
+  }
+  return [{ field: grouping.field, operator: 'eq', value: key }];
+}
+
+// Group key for the month of a date, e.g. "2024-03"; sorts chronologically
+export function monthKey(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+}
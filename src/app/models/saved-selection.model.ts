@@ -0,0 +1,25 @@
+import { DataFilter, FilterOperator } from '../interfaces/data-query.interface';
+import { RuleField, SavedSelection } from '../interfaces/saved-selection.interface';
+import { SelectionScope } from './selection-scope.model';
+
+export const FILTER_OPERATOR_LABELS: Record<FilterOperator, string> = {
+  eq: 'is',
+  contains: 'contains',
+  gt: 'is greater than',
+  lt: 'is less than'
+};
+
+// "Department is Engineering and Amount is greater than 100"
+export function describeRule(filters: DataFilter[], fields: RuleField[] = []): string {
+  const labels = new Map(fields.map(field => [field.key, field.label]));
+  return filters
+    .map(filter => `${labels.get(filter.field) ?? filter.field} ${FILTER_OPERATOR_LABELS[filter.operator]} ${filter.value}`)
+    .join(' and ');
+}
+
+// Rules are evaluated by the backend, so they pick up rows added or changed since saving
+export function savedSelectionScope(saved: SavedSelection): SelectionScope {
+  return saved.kind === 'static'
+    ? { kind: 'ids', ids: saved.ids }
+    : { kind: 'allMatching', query: { filters: saved.filters }, total: 0, excludedIds: [] };
+}
@@ -0,0 +1,23 @@
+import { DataItem } from '../interfaces/data-item.interface';
+import { DataQuery } from '../interfaces/data-query.interface';
+import { matchesQuery } from './data-query.model';
+
+/**
+ * What a bulk action targets: either an explicit list of ids, or every row
+ * matching a query except the ids the user deselected afterwards. The latter
+ * lets an action cover rows that were never loaded into the table.
+ */
+export type SelectionScope =
+  | { kind: 'ids'; ids: string[] }
+  | { kind: 'allMatching'; query: DataQuery; total: number; excludedIds: string[] };
+
+export function scopeCount(scope: SelectionScope): number {
+  return scope.kind === 'ids' ? scope.ids.length : scope.total - scope.excludedIds.length;
+}
+
+// Whether a loaded item is covered by the scope
+export function scopeIncludes(scope: SelectionScope, item: DataItem): boolean {
+  return scope.kind === 'ids'
+    ? scope.ids.includes(item.id)
+    : !scope.excludedIds.includes(item.id) && matchesQuery(item, scope.query);
+}
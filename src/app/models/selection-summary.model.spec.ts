@@ -0,0 +1,29 @@
+import { Order } from '../interfaces/data-item.interface';
+import { SelectionAggregate } from '../interfaces/selection-summary.interface';
+import { summarizeSelection } from './selection-summary.model';
+import { order } from '../testing/fixtures';
+
+describe('selection summary model', () => {
+  const aggregates: SelectionAggregate<Order>[] = [
+    { kind: 'sum', label: 'Total', value: item => item.amount },
+    { kind: 'average', label: 'Average', value: item => item.amount },
+    { kind: 'breakdown', label: 'Status', groupBy: item => item.status }
+  ];
+
+  it('sums and averages over the items', () => {
+    const [total, average] = summarizeSelection([order('o1', 'pending', 10), order('o2', 'pending', 30)], aggregates);
+    expect(total).toEqual(jasmine.objectContaining({ value: 40 }));
+    expect(average).toEqual(jasmine.objectContaining({ value: 20 }));
+  });
+
+  it('lists the largest groups of a breakdown first', () => {
+    const rows = [order('o1', 'active', 1), order('o2', 'pending', 1), order('o3', 'pending', 1)];
+    const breakdown = summarizeSelection(rows, aggregates)[2];
+    expect('counts' in breakdown && breakdown.counts).toEqual([{ key: 'pending', count: 2 }, { key: 'active', count: 1 }]);
+  });
+
+  it('leaves out averages when nothing is selected', () => {
+    const entries = summarizeSelection([], aggregates);
+    expect(entries.map(entry => entry.aggregate.label)).toEqual(['Total', 'Status']);
+  });
+});
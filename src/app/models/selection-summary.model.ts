@@ -0,0 +1,34 @@
+import { DataItem } from '../interfaces/data-item.interface';
+import { BreakdownCount, SelectionAggregate, SelectionSummaryEntry } from '../interfaces/selection-summary.interface';
+
+/**
+ * Computes each aggregate over the items. Averages of no items are left out;
+ * breakdowns list the largest groups first.
+ */
+export function summarizeSelection<T extends DataItem>(items: readonly T[], aggregates: readonly SelectionAggregate<T>[]): SelectionSummaryEntry<T>[] {
+  const entries: SelectionSummaryEntry<T>[] = [];
+  for (const aggregate of aggregates) {
+    if (aggregate.kind === 'breakdown') {
+      entries.push({ aggregate, counts: countBy(items, aggregate.groupBy) });
+      continue;
+    }
+    if (aggregate.kind === 'average' && !items.length) {
+      continue;
+    }
+    const sum = items.reduce((total, item) => total + aggregate.value(item), 0);
+    entries.push({ aggregate, value: aggregate.kind === 'average' ? sum / items.length : sum });
+  }
+  return entries;
+}
+
+function countBy<T>(items: readonly T[], groupBy: (item: T) => string): BreakdownCount[] {
+  const counts = new Map<string, number>();
+  items.forEach(item => {
+    const key = groupBy(item);
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  });
+  // Stable sort keeps ties in order of first appearance
+  return [...counts]
+    .map(([key, count]) => ({ key, count }))
+    .sort((a, b) => b.count - a.count);
+}
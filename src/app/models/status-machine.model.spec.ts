@@ -0,0 +1,26 @@
+import { USER_STATUS_MACHINE } from './status-machines';
+import { user } from '../testing/fixtures';
+
+describe('StatusMachine', () => {
+  it('moves items to the status the caller picked', () => {
+    expect(USER_STATUS_MACHINE.targetStatus('updateStatus', 'inactive')).toBe('inactive');
+    expect(USER_STATUS_MACHINE.canApply('updateStatus', user('u1', 'updated'), 'active')).toBeTrue();
+  });
+
+  it('skips items already in the picked status', () => {
+    const { allowed, blocked } = USER_STATUS_MACHINE.partition('updateStatus',
+      [user('u1', 'active'), user('u2', 'updated'), user('u3', 'reset')], 'updated');
+    expect(allowed.map(item => item.id)).toEqual(['u1', 'u3']);
+    expect(blocked.map(item => item.id)).toEqual(['u2']);
+  });
+
+  it('ignores picked statuses the transition does not offer', () => {
+    expect(USER_STATUS_MACHINE.targetStatus('updateStatus', 'reset')).toBeUndefined();
+    expect(USER_STATUS_MACHINE.targetStatus('resetPasswords', 'active')).toBe('reset');
+  });
+
+  it('only checks the source status while no target is picked', () => {
+    expect(USER_STATUS_MACHINE.canApply('updateStatus', user('u1', 'updated'))).toBeTrue();
+    expect(USER_STATUS_MACHINE.canApply('resetPasswords', user('u2', 'reset'))).toBeFalse();
+  });
+});
@@ -0,0 +1,55 @@
+import { DataItem } from '../interfaces/data-item.interface';
+
+export interface StatusTransition<S extends string> {
+  // Statuses an item must be in for the action to apply
+  from: readonly S[];
+  // Status the action moves the item to; omitted when the status is unchanged
+  to?: S;
+  // Statuses the caller may pick as the target instead; items already in
+  // the picked status are left alone
+  targets?: readonly S[];
+}
+
+export interface StatusMachineDefinition<T extends DataItem> {
+  // Plural label used in messages, e.g. "orders"
+  itemLabel: string;
+  transitions: Record<string, StatusTransition<T['status']>>;
+}
+
+export class StatusMachine<T extends DataItem> {
+  constructor(private definition: StatusMachineDefinition<T>) { }
+
+  get itemLabel(): string {
+    return this.definition.itemLabel;
+  }
+
+  /**
+   * Actions without a registered transition are not restricted. `target` is
+   * the status picked by the caller, for transitions that offer `targets`.
+   */
+  canApply(actionType: string, item: T, target?: T['status']): boolean {
+    const transition = this.definition.transitions[actionType];
+    if (!transition) {
+      return true;
+    }
+    const picked = transition.targets && this.targetStatus(actionType, target);
+    return transition.from.includes(item.status) && item.status !== picked;
+  }
+
+  // A picked status outside the transition's `targets` is ignored
+  targetStatus(actionType: string, target?: T['status']): T['status'] | undefined {
+    const transition = this.definition.transitions[actionType];
+    return target !== undefined && transition?.targets?.includes(target) ? target : transition?.to;
+  }
+
+  blockedReason(item: T): string {
+    return `Not allowed for ${item.status} ${this.itemLabel}`;
+  }
+
+  partition(actionType: string, items: T[], target?: T['status']): { allowed: T[]; blocked: T[] } {
+    const allowed: T[] = [];
+    const blocked: T[] = [];
+    items.forEach(item => (this.canApply(actionType, item, target) ? allowed : blocked).push(item));
+    return { allowed, blocked };
+  }
+}
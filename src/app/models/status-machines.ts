@@ -0,0 +1,31 @@
+import { Order, Product, User } from '../interfaces/data-item.interface';
+import { StatusMachine } from './status-machine.model';
+
+// Statuses a user can be moved to with the "Update Status" action
+export const ASSIGNABLE_USER_STATUSES: User['status'][] = ['active', 'inactive', 'pending', 'updated'];
+
+export const USER_STATUS_MACHINE = new StatusMachine<User>({
+  itemLabel: 'users',
+  transitions: {
+    sendNotifications: { from: ['active', 'pending', 'updated', 'reset'] },
+    updateStatus: { from: ['active', 'inactive', 'pending', 'updated', 'reset'], targets: ASSIGNABLE_USER_STATUSES },
+    resetPasswords: { from: ['active', 'inactive', 'updated'], to: 'reset' }
+  }
+});
+
+export const ORDER_STATUS_MACHINE = new StatusMachine<Order>({
+  itemLabel: 'orders',
+  transitions: {
+    processOrders: { from: ['active', 'pending'], to: 'processed' },
+    cancelOrders: { from: ['active', 'pending', 'inactive'], to: 'canceled' },
+    refundOrders: { from: ['processed'], to: 'refunded' }
+  }
+});
+
+export const PRODUCT_STATUS_MACHINE = new StatusMachine<Product>({
+  itemLabel: 'products',
+  transitions: {
+    restockProducts: { from: ['low-stock', 'out-of-stock'], to: 'active' },
+    discontinueProducts: { from: ['active', 'low-stock', 'out-of-stock'], to: 'discontinued' }
+  }
+});
@@ -0,0 +1,79 @@
+import { convertToParamMap, ParamMap, Params } from '@angular/router';
+import { DEFAULT_TABLE_QUERY } from './data-query.model';
+import { TableUrlState, tableStateFromParams, tableStateToParams } from './table-url-state.model';
+
+// What the router hands back after a navigation: no null params, every value a string
+function paramMap(params: Params): ParamMap {
+  return convertToParamMap(Object.fromEntries(Object.entries(params)
+    .filter(([, value]) => value !== null)
+    .map(([key, value]) => [key, Array.isArray(value) ? value.map(String) : String(value)])));
+}
+
+describe('table URL state model', () => {
+  it('reads back what it writes', () => {
+    const state: TableUrlState = {
+      query: {
+        filters: [{ field: 'status', operator: 'eq', value: 'active' }, { field: 'name', operator: 'contains', value: 'a:b' }],
+        page: 2,
+        pageSize: 25,
+        sortField: 'createdAt',
+        sortDirection: 'desc'
+      },
+      multiSelect: true,
+      selection: ['u1', 'u2']
+    };
+    expect(tableStateFromParams(paramMap(tableStateToParams(state)))).toEqual(state);
+  });
+
+  it('round-trips a selection of every matching row', () => {
+    const state: TableUrlState = { query: DEFAULT_TABLE_QUERY, multiSelect: true, selection: 'all' };
+    expect(tableStateToParams(state)['selected']).toEqual('all');
+    expect(tableStateFromParams(paramMap(tableStateToParams(state))).selection).toBe('all');
+  });
+
+  it('leaves defaults out of the URL', () => {
+    const params = tableStateToParams({ query: DEFAULT_TABLE_QUERY, multiSelect: false, selection: [] });
+    expect(Object.values(params).every(value => value === null)).toBeTrue();
+    expect(tableStateFromParams(paramMap(params))).toEqual({
+      query: { ...DEFAULT_TABLE_QUERY, sortField: undefined, sortDirection: undefined },
+      multiSelect: false,
+      selection: []
+    });
+  });
+
+  it('ignores a sort without a valid direction', () => {
+    expect(tableStateFromParams(paramMap({ sort: 'name', order: 'sideways' })).query)
+      .toEqual(jasmine.objectContaining({ sortField: undefined, sortDirection: undefined }));
+    expect(tableStateFromParams(paramMap({ sort: 'name' })).query.sortField).toBeUndefined();
+    expect(tableStateFromParams(paramMap({ order: 'asc' })).query.sortDirection).toBeUndefined();
+  });
+
+  it('drops filters with an unknown operator or no field', () => {
+    const { query } = tableStateFromParams(paramMap({ filter: ['status:like:active', ':eq:x', 'junk', 'name:contains:jo'] }));
+    expect(query.filters).toEqual([{ field: 'name', operator: 'contains', value: 'jo' }]);
+  });
+
+  it('falls back to the first page and default size for malformed numbers', () => {
+    ['0', '-2', 'abc', '2.5', ''].forEach(value => {
+      const { query } = tableStateFromParams(paramMap({ page: value, pageSize: value }));
+      expect(query.page).withContext(`page=${value}`).toBe(0);
+      expect(query.pageSize).withContext(`pageSize=${value}`).toBe(DEFAULT_TABLE_QUERY.pageSize);
+    });
+  });
+
+  it('narrows the table to the row an ?id= link points to', () => {
+    expect(tableStateFromParams(paramMap({ id: 'u7' })).query.filters)
+      .toEqual([{ field: 'id', operator: 'eq', value: 'u7' }]);
+  });
+
+  it('prefers explicit filters over ?id=', () => {
+    expect(tableStateFromParams(paramMap({ id: 'u7', filter: 'status:eq:active' })).query.filters)
+      .toEqual([{ field: 'status', operator: 'eq', value: 'active' }]);
+  });
+
+  it('turns multi select on when ids are selected', () => {
+    const state = tableStateFromParams(paramMap({ selected: ['u1', 'u2'] }));
+    expect(state.multiSelect).toBeTrue();
+    expect(state.selection).toEqual(['u1', 'u2']);
+  });
+});
@@ -0,0 +1,55 @@
+import { ParamMap, Params } from '@angular/router';
+import { SortDirection, TableQuery } from '../interfaces/data-query.interface';
+import { DEFAULT_TABLE_QUERY, formatFilter, parseFilter, queryForRow } from './data-query.model';
+
+// Table state that is mirrored in the page URL so views can be bookmarked and shared
+export interface TableUrlState {
+  query: TableQuery;
+  multiSelect: boolean;
+  // Selected ids, or 'all' for every row matching the query
+  selection: string[] | 'all';
+}
+
+function positiveInteger(value: string | null): number | null {
+  const parsed = Number(value);
+  return value && Number.isInteger(parsed) && parsed > 0 ? parsed : null;
+}
+
+/**
+ * Reads the table state from query params, falling back to the defaults for
+ * anything missing or malformed. `?id=` from links to a single row is still
+ * understood and narrows the table to that row.
+ */
+export function tableStateFromParams(params: ParamMap): TableUrlState {
+  const filters = params.getAll('filter').flatMap(filter => parseFilter(filter) ?? []);
+  const order = params.get('order');
+  const sortDirection: SortDirection | undefined = order === 'asc' || order === 'desc' ? order : undefined;
+  const selected = params.getAll('selected');
+
+  return {
+    query: {
+      filters: filters.length ? filters : queryForRow(params.get('id')).filters,
+      // Pages are one-based in the URL
+      page: (positiveInteger(params.get('page')) ?? 1) - 1,
+      pageSize: positiveInteger(params.get('pageSize')) ?? DEFAULT_TABLE_QUERY.pageSize,
+      sortField: sortDirection ? params.get('sort') ?? undefined : undefined,
+      sortDirection: params.get('sort') ? sortDirection : undefined
+    },
+    multiSelect: params.get('select') === '1' || selected.length > 0,
+    selection: selected.length === 1 && selected[0] === 'all' ? 'all' : selected
+  };
+}
+
+// Leaves out default values so plain views keep plain URLs
+export function tableStateToParams(state: TableUrlState): Params {
+  const { query, multiSelect, selection } = state;
+  return {
+    filter: query.filters.length ? query.filters.map(formatFilter) : null,
+    sort: query.sortField && query.sortDirection ? query.sortField : null,
+    order: query.sortField && query.sortDirection ? query.sortDirection : null,
+    page: query.page ? query.page + 1 : null,
+    pageSize: query.pageSize !== DEFAULT_TABLE_QUERY.pageSize ? query.pageSize : null,
+    select: multiSelect ? '1' : null,
+    selected: multiSelect && selection.length ? selection : null
+  };
+}
@@ -0,0 +1,45 @@
+import { Component, inject } from '@angular/core';
+import { ActivatedRoute, RouterLink } from '@angular/router';
+import { MatButtonModule } from '@angular/material/button';
+import { MatIconModule } from '@angular/material/icon';
+import { PermissionService } from '../../services/permission.service';
+
+@Component({
+  selector: 'app-access-denied',
+  standalone: true,
+  imports: [RouterLink, MatButtonModule, MatIconModule],
+  template: `
+    <div class="page-container">
+      <mat-icon>lock</mat-icon>
+      <h2>Access denied</h2>
+      <p>
+        Your role ({{ permissions.roleLabel() }}) doesn't have
+        @if (permission) {
+          the <code>{{ permission }}</code> permission.
+        } @else {
+          access to that page.
+        }
+      </p>
+      <button mat-stroked-button routerLink="/history">Go to history</button>
+    </div>
+  `,
+  styles: [`
+    .page-container {
+      padding: 48px 20px;
+      max-width: 600px;
+      margin: 0 auto;
+      text-align: center;
+      color: #666;
+
+      mat-icon {
+        font-size: 48px;
+        width: 48px;
+        height: 48px;
+      }
+    }
+  `]
+})
+export class AccessDeniedComponent {
+  protected permissions = inject(PermissionService);
+  protected permission = inject(ActivatedRoute).snapshot.queryParamMap.get('permission');
+}
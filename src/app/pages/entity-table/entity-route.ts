@@ -0,0 +1,24 @@
+import { Type } from '@angular/core';
+import { Route } from '@angular/router';
+import { DataItem } from '../../interfaces/data-item.interface';
+import { EntityDefinition } from '../../interfaces/entity-definition.interface';
+import { requirePermission } from '../../guards/permission.guard';
+
+/**
+ * Route to the table page of an entity registered with `provideEntity`. Pass
+ * `loadComponent` for a page that wraps `EntityTableComponent`, e.g. to add
+ * custom cells.
+ */
+export function entityRoute<T extends DataItem>(
+  entity: EntityDefinition<T>,
+  loadComponent: () => Promise<Type<unknown>> = () => import('./entity-table.component').then(m => m.EntityTableComponent)
+): Route {
+  return {
+    path: entity.key,
+    canActivate: [requirePermission(`${entity.key}:view`)],
+    // Re-check when the dev role switcher reloads the page
+    runGuardsAndResolvers: 'always',
+    data: { entity: entity.key },
+    loadComponent
+  };
+}
@@ -0,0 +1,84 @@
+import { Component, ContentChildren, QueryList, inject, effect, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ActivatedRoute } from '@angular/router';
+import { DataTableComponent } from '../../components/data-table/data-table.component';
+import { ColumnCellDirective } from '../../components/data-table/column-cell.directive';
+import { DataService } from '../../services/data.service';
+import { EntityRegistryService } from '../../services/entity-registry.service';
+import { DataItem } from '../../interfaces/data-item.interface';
+import { EntityDefinition } from '../../interfaces/entity-definition.interface';
+import { TableQuery } from '../../interfaces/data-query.interface';
+import { tableStateFromParams } from '../../models/table-url-state.model';
+
+// Rows fetched per request when the entity scrolls virtually
+const VIRTUAL_PAGE_SIZE = 100;
+
+// Table page for any registered entity; see `entityRoute`. Pages that need custom
+// cells wrap it and pass `appColumnCell` templates as content
+@Component({
+  selector: 'app-entity-table',
+  standalone: true,
+  imports: [CommonModule, DataTableComponent],
+  template: `
+    <div class="page-container">
+      <app-data-table
+        [dataSource]="collection.page()?.items || []"
+        [total]="collection.page()?.total || 0"
+        [pendingIds]="collection.pendingIds()"
+        [changedIds]="collection.changedIds()"
+        [query]="query()"
+        [syncWithUrl]="true"
+        [statusOptions]="statusOptions"
+        [groupings]="entity.groupings ?? []"
+        [columnCells]="cellTemplates"
+        [virtualScroll]="entity.virtualScroll ?? false"
+        (loadMore)="collection.loadMore()"
+        (queryChange)="query.set($event)"
+        [columns]="entity.columns"
+        [actionContext]="entity.key"
+        [title]="entity.title">
+      </app-data-table>
+    </div>
+  `,
+  styles: [`
+    .page-container {
+      padding: 20px;
+      max-width: 1200px;
+      margin: 0 auto;
+    }
+
+    @media (max-width: 768px) {
+      .page-container {
+        padding: 16px;
+      }
+    }
+  `]
+})
+export class EntityTableComponent {
+  private dataService = inject(DataService);
+  private route = inject(ActivatedRoute);
+  private registry = inject(EntityRegistryService);
+  @ContentChildren(ColumnCellDirective) cellTemplates?: QueryList<ColumnCellDirective<DataItem>>;
+  entity: EntityDefinition<DataItem> = this.findEntity();
+  collection = this.dataService.collection(this.entity);
+  statusOptions = [...this.entity.statuses];
+
+  // Restored from the URL, which the table keeps up to date
+  query = signal<TableQuery>(tableStateFromParams(this.route.snapshot.queryParamMap).query);
+
+  constructor() {
+    // Virtual scrolling starts at the first page and loads the rest with `loadMore`
+    effect(() => this.collection.load(this.entity.virtualScroll
+      ? { ...this.query(), page: 0, pageSize: VIRTUAL_PAGE_SIZE }
+      : this.query()));
+  }
+
+  private findEntity(): EntityDefinition<DataItem> {
+    const key = this.route.snapshot.data['entity'];
+    const entity = this.registry.get(key);
+    if (!entity) {
+      throw new Error(`No entity registered under "${key}"; add it with provideEntity()`);
+    }
+    return entity;
+  }
+}
@@ -0,0 +1,273 @@
+import { Component, computed, inject, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { RouterLink } from '@angular/router';
+import { MatButtonModule } from '@angular/material/button';
+import { MatChipsModule } from '@angular/material/chips';
+import { MatExpansionModule } from '@angular/material/expansion';
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatIconModule } from '@angular/material/icon';
+import { MatSelectModule } from '@angular/material/select';
+import { AuditEntry } from '../../interfaces/audit-entry.interface';
+import { AuditLogService } from '../../services/audit-log.service';
+
+@Component({
+  selector: 'app-history',
+  standalone: true,
+  imports: [
+    CommonModule,
+    RouterLink,
+    MatButtonModule,
+    MatChipsModule,
+    MatExpansionModule,
+    MatFormFieldModule,
+    MatIconModule,
+    MatSelectModule
+  ],
+  template: `
+    <div class="page-container">
+      <div class="history-header">
+        <h2>Bulk Action History</h2>
+        <button mat-stroked-button type="button" (click)="auditLog.clear()" [disabled]="!auditLog.entries().length">
+          <mat-icon>delete_sweep</mat-icon>
+          Clear history
+        </button>
+      </div>
+
+      <div class="filter-bar">
+        <mat-form-field appearance="outline">
+          <mat-label>Entity</mat-label>
+          <mat-select [value]="entityFilter()" (selectionChange)="setEntityFilter($event.value)">
+            <mat-option value="">Any</mat-option>
+            @for (entity of entityTypes(); track entity) {
+              <mat-option [value]="entity">{{ entity | titlecase }}</mat-option>
+            }
+          </mat-select>
+        </mat-form-field>
+        <mat-form-field appearance="outline">
+          <mat-label>Action</mat-label>
+          <mat-select [value]="actionFilter()" (selectionChange)="actionFilter.set($event.value)">
+            <mat-option value="">Any</mat-option>
+            @for (action of actionTypes(); track action.type) {
+              <mat-option [value]="action.type">{{ action.label }}</mat-option>
+            }
+          </mat-select>
+        </mat-form-field>
+      </div>
+
+      <mat-accordion multi>
+        @for (entry of filteredEntries(); track entry.id) {
+          <mat-expansion-panel>
+            <mat-expansion-panel-header>
+              <mat-panel-title>
+                <mat-chip [ngClass]="'outcome-' + entry.outcome" class="outcome-chip">{{ entry.outcome | titlecase }}</mat-chip>
+                {{ entry.actionLabel }}
+                <span class="entity-type">{{ entry.entityType }}</span>
+              </mat-panel-title>
+              <mat-panel-description>
+                {{ entry.summary }} · {{ entry.timestamp | date:'medium' }}
+              </mat-panel-description>
+            </mat-expansion-panel-header>
+
+            <ng-template matExpansionPanelContent>
+              @if (entry.params) {
+                <dl class="entry-params">
+                  @for (param of entry.params | keyvalue; track param.key) {
+                    <dt>{{ param.key }}</dt>
+                    <dd>{{ param.value }}</dd>
+                  }
+                </dl>
+              }
+              @if (entry.items.length) {
+                <table class="items-table">
+                  <thead>
+                    <tr>
+                      <th>Item</th>
+                      <th>Status</th>
+                      <th>Outcome</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    @for (item of entry.items.slice(0, itemLimit); track item.id) {
+                      <tr>
+                        <td>
+                          <a [routerLink]="['/', entry.entityType]" [queryParams]="{ id: item.id }">{{ item.name }}</a>
+                        </td>
+                        <td>
+                          @if (item.statusBefore && item.statusAfter !== item.statusBefore) {
+                            {{ item.statusBefore | titlecase }} → {{ item.statusAfter | titlecase }}
+                          } @else {
+                            {{ item.statusBefore | titlecase }}
+                          }
+                        </td>
+                        <td [ngClass]="'item-' + item.outcome">
+                          {{ item.outcome | titlecase }}
+                          @if (item.reason) {
+                            <span class="reason">{{ item.reason }}</span>
+                          }
+                        </td>
+                      </tr>
+                    }
+                  </tbody>
+                </table>
+                @if (entry.items.length > itemLimit) {
+                  <p class="more-items">and {{ entry.items.length - itemLimit | number }} more</p>
+                }
+              } @else {
+                <p class="more-items">No items were processed.</p>
+              }
+            </ng-template>
+          </mat-expansion-panel>
+        } @empty {
+          <div class="no-data">
+            <mat-icon>history</mat-icon>
+            <p>No bulk actions recorded yet</p>
+          </div>
+        }
+      </mat-accordion>
+    </div>
+  `,
+  styles: [`
+    .page-container {
+      padding: 20px;
+      max-width: 1200px;
+      margin: 0 auto;
+    }
+
+    .history-header {
+      display: flex;
+      align-items: center;
+      justify-content: space-between;
+    }
+
+    .filter-bar {
+      display: flex;
+      flex-wrap: wrap;
+      gap: 16px;
+    }
+
+    .outcome-chip {
+      margin-right: 8px;
+      font-size: 12px;
+      min-height: 24px;
+    }
+
+    .outcome-succeeded {
+      background-color: #e8f5e8;
+      color: #2e7d32;
+    }
+
+    .outcome-partial,
+    .outcome-canceled {
+      background-color: #fff3e0;
+      color: #f57c00;
+    }
+
+    .outcome-failed {
+      background-color: #ffebee;
+      color: #d32f2f;
+    }
+
+    .entity-type {
+      margin-left: 8px;
+      font-size: 12px;
+      opacity: 0.7;
+    }
+
+    .entry-params {
+      display: grid;
+      grid-template-columns: max-content 1fr;
+      gap: 4px 16px;
+      margin: 0 0 12px;
+
+      dt {
+        font-weight: 600;
+      }
+
+      dd {
+        margin: 0;
+        white-space: pre-wrap;
+      }
+    }
+
+    .items-table {
+      width: 100%;
+      border-collapse: collapse;
+
+      th,
+      td {
+        padding: 6px 8px;
+        text-align: left;
+        border-bottom: 1px solid #e0e0e0;
+      }
+    }
+
+    .item-failed {
+      color: #d32f2f;
+    }
+
+    .item-skipped {
+      color: #f57c00;
+    }
+
+    .reason {
+      display: block;
+      font-size: 12px;
+      opacity: 0.8;
+    }
+
+    .more-items {
+      margin: 8px 0 0;
+      opacity: 0.7;
+    }
+
+    .no-data {
+      text-align: center;
+      padding: 48px;
+      color: #666;
+
+      mat-icon {
+        font-size: 48px;
+        width: 48px;
+        height: 48px;
+      }
+    }
+
+    @media (max-width: 768px) {
+      .page-container {
+        padding: 16px;
+      }
+    }
+  `]
+})
+export class HistoryComponent {
+  protected auditLog = inject(AuditLogService);
+
+  // Items listed per entry; large jobs are truncated
+  itemLimit = 50;
+  entityFilter = signal('');
+  actionFilter = signal('');
+
+  entityTypes = computed(() => [...new Set(this.auditLog.entries().map(entry => entry.entityType))]);
+
+  actionTypes = computed(() => {
+    const actions = new Map<string, string>();
+    this.entriesForEntity().forEach(entry => actions.set(entry.actionType, entry.actionLabel));
+    return [...actions].map(([type, label]) => ({ type, label }));
+  });
+
+  filteredEntries = computed(() => {
+    const action = this.actionFilter();
+    return this.entriesForEntity().filter(entry => !action || entry.actionType === action);
+  });
+
+  private entriesForEntity = computed((): AuditEntry[] => {
+    const entity = this.entityFilter();
+    return this.auditLog.entries().filter(entry => !entity || entry.entityType === entity);
+  });
+
+  setEntityFilter(entity: string) {
+    this.entityFilter.set(entity);
+    // The action may not exist for the newly picked entity
+    this.actionFilter.set('');
+  }
+}
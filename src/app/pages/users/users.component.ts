@@ -1,43 +1,21 @@
-import { Component, inject, computed } from '@angular/core';
-import { CommonModule } from '@angular/common';
-import { DataTableComponent } from '../../components/data-table/data-table.component';
-import { DataService } from '../../services/data.service';
-import { User } from '../../interfaces/data-item.interface';
+import { Component } from '@angular/core';
+import { EntityTableComponent } from '../entity-table/entity-table.component';
+import { ColumnCellDirective } from '../../components/data-table/column-cell.directive';
+import { USER_ENTITY } from '../../entities/user.entity';
 
+// The shared entity page with the email column turned into mailto links
 @Component({
   selector: 'app-users',
   standalone: true,
-  imports: [CommonModule, DataTableComponent],
+  imports: [EntityTableComponent, ColumnCellDirective],
   template: `
-    <div class="page-container">
-      <app-data-table
-        [dataSource]="users() || []"
-        [displayedColumns]="displayedColumns"
-        [actionContext]="'users'"
-        title="Users Management">
-      </app-data-table>
-    </div>
-  `,
-  styles: [`
-    .page-container {
-      padding: 20px;
-      max-width: 1200px;
-      margin: 0 auto;
-    }
-
-    @media (max-width: 768px) {
-      .page-container {
-        padding: 16px;
-      }
-    }
-  `]
+    <app-entity-table>
+      <ng-template appColumnCell="email" [appColumnCellEntity]="entity" let-row>
+        <a [href]="'mailto:' + row.email" (click)="$event.stopPropagation()">{{ row.email }}</a>
+      </ng-template>
+    </app-entity-table>
+  `
 })
 export class UsersComponent {
-  private dataService = inject(DataService);
-  users = this.dataService.users;
-  displayedColumns = ['name', 'email', 'department', 'status', 'lastLogin', 'createdAt'];
-
-  constructor() {
-    this.dataService.loadUsers();
-  }
-}
\ No newline at end of file
+  entity = USER_ENTITY;
+}
@@ -0,0 +1,40 @@
+import { inject, Injectable, InjectionToken, Provider } from '@angular/core';
+import { DataItem } from '../interfaces/data-item.interface';
+import { BulkActionDefinition } from '../interfaces/bulk-action.interface';
+
+// Registrations for every table share one list, so their row types are erased to `DataItem`
+export interface BulkActionRegistration {
+  key: string;
+  actions: BulkActionDefinition<DataItem>[];
+}
+
+export const BULK_ACTIONS = new InjectionToken<BulkActionRegistration[]>('BULK_ACTIONS');
+
+/**
+ * Registers the bulk actions available for a table under the given key.
+ * The factory runs in an injection context, so it can `inject()` services.
+ */
+export function provideBulkActions<T extends DataItem>(
+  key: string,
+  factory: () => BulkActionDefinition<T>[]
+): Provider {
+  return {
+    provide: BULK_ACTIONS,
+    multi: true,
+    useFactory: (): BulkActionRegistration => ({ key, actions: factory() })
+  };
+}
+
+@Injectable({
+  providedIn: 'root'
+})
+export class ActionRegistryService {
+  private registrations = inject(BULK_ACTIONS, { optional: true }) ?? [];
+
+  // Callers ask for the row type the actions were registered with under `key`
+  getActions<T extends DataItem>(key: string): BulkActionDefinition<T>[] {
+    return this.registrations
+      .filter(registration => registration.key === key)
+      .flatMap(registration => registration.actions as BulkActionDefinition<T>[]);
+  }
+}
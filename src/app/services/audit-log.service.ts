@@ -0,0 +1,40 @@
+import { Injectable, signal } from '@angular/core';
+import { AuditEntry } from '../interfaces/audit-entry.interface';
+import { persistJson, restoreJson } from '../models/local-storage';
+
+const STORAGE_KEY = 'bulk-action-audit-log';
+
+@Injectable({
+  providedIn: 'root'
+})
+export class AuditLogService {
+  // Oldest entries are dropped beyond this many
+  maxEntries = 200;
+
+  private entriesState = signal<AuditEntry[]>(this.restore());
+  private sequence = 0;
+
+  // Most recent first
+  readonly entries = this.entriesState.asReadonly();
+
+  record(entry: Omit<AuditEntry, 'id' | 'timestamp'>) {
+    const timestamp = new Date();
+    const recorded: AuditEntry = { ...entry, id: `audit-${timestamp.getTime()}-${++this.sequence}`, timestamp };
+    this.entriesState.update(entries => [recorded, ...entries].slice(0, this.maxEntries));
+    this.persist();
+  }
+
+  clear() {
+    this.entriesState.set([]);
+    this.persist();
+  }
+
+  private persist() {
+    persistJson(STORAGE_KEY, this.entriesState(), 'the audit log');
+  }
+
+  private restore(): AuditEntry[] {
+    return restoreJson<AuditEntry[]>(STORAGE_KEY, 'the audit log', [],
+      entries => entries.map(entry => ({ ...entry, timestamp: new Date(entry.timestamp) })));
+  }
+}
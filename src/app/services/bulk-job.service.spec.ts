@@ -0,0 +1,129 @@
+import { provideZonelessChangeDetection } from '@angular/core';
+import { TestBed } from '@angular/core/testing';
+import { BulkActionDefinition, BulkActionReport } from '../interfaces/bulk-action.interface';
+import { SelectionScope } from '../models/selection-scope.model';
+import { AuditLogService } from './audit-log.service';
+import { BulkJobService } from './bulk-job.service';
+import { DataService } from './data.service';
+
+// Succeeds for every id in the batch, with one undo token per request
+function succeeded(scope: SelectionScope, token: string): BulkActionReport {
+  const ids = scope.kind === 'ids' ? scope.ids : [];
+  return {
+    results: ids.map(id => ({ id, name: id, outcome: 'succeeded' })),
+    undo: { tokens: [token], expiresAt: new Date('2030-01-01') }
+  };
+}
+
+function action(handler: BulkActionDefinition['handler']): BulkActionDefinition {
+  return {
+    type: 'processOrders',
+    label: 'Process Orders',
+    icon: 'settings',
+    width: '150px',
+    handler,
+    messages: { progress: count => `Processing ${count}...`, success: 'Done.', pastTense: 'processed', error: 'Failed to process orders.' }
+  };
+}
+
+describe('BulkJobService', () => {
+  let jobs: BulkJobService;
+  let dataService: jasmine.SpyObj<DataService>;
+  let auditLog: AuditLogService;
+  const ids = ['o1', 'o2', 'o3', 'o4', 'o5'];
+
+  beforeEach(() => {
+    localStorage.clear();
+    dataService = jasmine.createSpyObj<DataService>('DataService', ['resolveIds']);
+    TestBed.configureTestingModule({
+      providers: [
+        provideZonelessChangeDetection(),
+        { provide: DataService, useValue: dataService }
+      ]
+    });
+    jobs = TestBed.inject(BulkJobService);
+    auditLog = TestBed.inject(AuditLogService);
+    jobs.batchSize = 2;
+  });
+
+  it('sends the scope in batches and merges their reports', async () => {
+    const batches: string[][] = [];
+    const handler = jasmine.createSpy('handler').and.callFake(async (scope: SelectionScope) => {
+      batches.push(scope.kind === 'ids' ? scope.ids : []);
+      return succeeded(scope, `t${batches.length}`);
+    });
+
+    const { id, done } = jobs.start('orders', action(handler), { kind: 'ids', ids });
+    const report = await done;
+
+    expect(batches).toEqual([['o1', 'o2'], ['o3', 'o4'], ['o5']]);
+    expect(report.results.map(result => result.id)).toEqual(ids);
+    expect(report.undo?.tokens).toEqual(['t1', 't2', 't3']);
+    expect(jobs.job(id)).toEqual(jasmine.objectContaining({ status: 'completed', processed: 5, total: 5 }));
+    expect(auditLog.entries()[0].outcome).toBe('succeeded');
+  });
+
+  it('resolves "all matching" scopes to ids before batching', async () => {
+    dataService.resolveIds.and.resolveTo(['o1', 'o2', 'o3']);
+    const handler = jasmine.createSpy('handler').and.callFake(async (scope: SelectionScope) => succeeded(scope, 't'));
+    const scope: SelectionScope = { kind: 'allMatching', query: { filters: [] }, total: 3, excludedIds: [] };
+
+    const report = await jobs.start('orders', action(handler), scope).done;
+
+    expect(dataService.resolveIds).toHaveBeenCalledWith('orders', scope);
+    expect(handler).toHaveBeenCalledTimes(2);
+    expect(report.results.length).toBe(3);
+  });
+
+  it('stops before the next batch when canceled and skips the rest', async () => {
+    // The first batch is sent right away, before `start` returns the job's id
+    const handler = jasmine.createSpy('handler').and.callFake(async (scope: SelectionScope) => {
+      jobs.cancel(jobs.jobs()[0].id);
+      return succeeded(scope, 't1');
+    });
+
+    const { id, done } = jobs.start('orders', action(handler), { kind: 'ids', ids });
+    const report = await done;
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(report.results.map(result => result.outcome)).toEqual(['succeeded', 'succeeded', 'skipped', 'skipped', 'skipped']);
+    expect(report.undo?.tokens).toEqual(['t1']);
+    expect(jobs.job(id)?.status).toBe('canceled');
+    expect(auditLog.entries()[0].outcome).toBe('canceled');
+  });
+
+  it('keeps earlier batches applied when a later one fails', async () => {
+    const handler = jasmine.createSpy('handler').and.callFake(async (scope: SelectionScope) => {
+      if (handler.calls.count() === 2) {
+        throw new Error('Server unavailable');
+      }
+      return succeeded(scope, 't1');
+    });
+
+    const { id, done } = jobs.start('orders', action(handler), { kind: 'ids', ids });
+    const report = await done;
+
+    expect(handler).toHaveBeenCalledTimes(2);
+    expect(report.results).toEqual([
+      jasmine.objectContaining({ id: 'o1', outcome: 'succeeded' }),
+      jasmine.objectContaining({ id: 'o2', outcome: 'succeeded' }),
+      jasmine.objectContaining({ id: 'o3', outcome: 'failed', reason: 'Server unavailable' }),
+      jasmine.objectContaining({ id: 'o4', outcome: 'failed', reason: 'Server unavailable' }),
+      jasmine.objectContaining({ id: 'o5', outcome: 'failed', reason: 'Server unavailable' })
+    ]);
+    // The succeeded batch can still be undone
+    expect(report.undo?.tokens).toEqual(['t1']);
+    expect(jobs.job(id)).toEqual(jasmine.objectContaining({ status: 'failed', processed: 2 }));
+    expect(auditLog.entries()[0].outcome).toBe('partial');
+  });
+
+  it('fails the job when the first batch fails', async () => {
+    const handler = jasmine.createSpy('handler').and.rejectWith(new Error('Server unavailable'));
+
+    const { id, done } = jobs.start('orders', action(handler), { kind: 'ids', ids });
+
+    await expectAsync(done).toBeRejectedWithError('Server unavailable');
+    expect(jobs.job(id)).toEqual(jasmine.objectContaining({ status: 'failed', summary: 'Failed to process orders.' }));
+    expect(auditLog.entries()[0].outcome).toBe('failed');
+  });
+});
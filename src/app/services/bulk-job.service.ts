@@ -0,0 +1,159 @@
+import { computed, inject, Injectable, signal } from '@angular/core';
+import { from, lastValueFrom } from 'rxjs';
+import { DataItem } from '../interfaces/data-item.interface';
+import { BulkActionDefinition, BulkActionReport, BulkItemResult } from '../interfaces/bulk-action.interface';
+import { BulkJob, BulkJobRef } from '../interfaces/bulk-job.interface';
+import { AuditOutcome } from '../interfaces/audit-entry.interface';
+import { ActionParams } from '../interfaces/action-params.interface';
+import { SelectionScope, scopeCount } from '../models/selection-scope.model';
+import { countOutcomes, mergeReports, summarizeReport } from '../models/bulk-action-report.model';
+import { AuditLogService } from './audit-log.service';
+import { DataService } from './data.service';
+
+@Injectable({
+  providedIn: 'root'
+})
+export class BulkJobService {
+  // Items sent to the backend per request
+  batchSize = 50;
+
+  private dataService = inject(DataService);
+  private auditLog = inject(AuditLogService);
+  private jobsState = signal<BulkJob[]>([]);
+  private cancelRequested = new Set<string>();
+  private sequence = 0;
+
+  // Most recent first; jobs outlive the table they were started from
+  readonly jobs = this.jobsState.asReadonly();
+  readonly activeCount = computed(() => this.jobs().filter(job => !job.finishedAt).length);
+
+  /**
+   * Runs a bulk action as a background job, splitting the scope into batches
+   * of `batchSize` ids. "All matching" scopes are resolved to ids first, using
+   * `context` as the collection name. Every finished job is audit logged.
+   */
+  start<T extends DataItem>(
+    context: string,
+    action: BulkActionDefinition<T>,
+    scope: SelectionScope,
+    params?: ActionParams
+  ): BulkJobRef {
+    const id = `job-${++this.sequence}`;
+    const job: BulkJob = {
+      id,
+      label: action.label,
+      context,
+      status: 'running',
+      processed: 0,
+      total: scopeCount(scope),
+      startedAt: new Date()
+    };
+    this.jobsState.update(jobs => [job, ...jobs]);
+    return { id, done: this.run(job, action, scope, params) };
+  }
+
+  job(id: string): BulkJob | undefined {
+    return this.jobs().find(job => job.id === id);
+  }
+
+  /** Stops the job before its next batch; the batch in flight still completes. */
+  cancel(id: string) {
+    if (this.job(id)?.status === 'running') {
+      this.cancelRequested.add(id);
+      this.patch(id, { status: 'canceling' });
+    }
+  }
+
+  clearFinished() {
+    this.jobsState.update(jobs => jobs.filter(job => !job.finishedAt));
+  }
+
+  private async run<T extends DataItem>(
+    job: BulkJob,
+    action: BulkActionDefinition<T>,
+    scope: SelectionScope,
+    params?: ActionParams
+  ): Promise<BulkActionReport> {
+    const reports: BulkActionReport[] = [];
+    let ids: string[] = [];
+    let processed = 0;
+    try {
+      ids = scope.kind === 'ids' ? scope.ids : await this.dataService.resolveIds(job.context, scope);
+      this.patch(job.id, { total: ids.length });
+
+      while (processed < ids.length && !this.cancelRequested.has(job.id)) {
+        const batch = ids.slice(processed, processed + this.batchSize);
+        reports.push(await lastValueFrom(from(action.handler({ kind: 'ids', ids: batch }, params))));
+        processed += batch.length;
+        this.patch(job.id, { processed });
+      }
+    } catch (error) {
+      if (!reports.length) {
+        this.finish(job, action, params, 'failed', action.messages.error);
+        throw error;
+      }
+      // Earlier batches were applied, so report the rest as failed instead of failing the job
+      const reason = error instanceof Error ? error.message : action.messages.error;
+      reports.push({ results: ids.slice(processed).map(id => this.unprocessed(id, 'failed', reason)) });
+      return this.finishWithReport(job, action, params, 'failed', reports);
+    }
+
+    if (processed < ids.length) {
+      reports.push({ results: ids.slice(processed).map(id => this.unprocessed(id, 'skipped', 'Job was canceled')) });
+      return this.finishWithReport(job, action, params, 'canceled', reports);
+    }
+    return this.finishWithReport(job, action, params, 'completed', reports);
+  }
+
+  private unprocessed(id: string, outcome: 'failed' | 'skipped', reason: string): BulkItemResult {
+    return { id, name: id, outcome, reason };
+  }
+
+  private finishWithReport<T extends DataItem>(
+    job: BulkJob,
+    action: BulkActionDefinition<T>,
+    params: ActionParams | undefined,
+    status: 'completed' | 'canceled' | 'failed',
+    reports: BulkActionReport[]
+  ): BulkActionReport {
+    const report = mergeReports(reports);
+    this.finish(job, action, params, status, summarizeReport(report, action.messages), report);
+    return report;
+  }
+
+  private finish<T extends DataItem>(
+    job: BulkJob,
+    action: BulkActionDefinition<T>,
+    params: ActionParams | undefined,
+    status: BulkJob['status'],
+    summary: string,
+    report?: BulkActionReport
+  ) {
+    this.cancelRequested.delete(job.id);
+    this.patch(job.id, { status, summary, report, finishedAt: new Date() });
+    this.auditLog.record({
+      entityType: job.context,
+      actionType: action.type,
+      actionLabel: action.label,
+      params: params && Object.keys(params).length ? params : undefined,
+      outcome: this.auditOutcome(status, report),
+      summary,
+      items: report?.results ?? []
+    });
+  }
+
+  private auditOutcome(status: BulkJob['status'], report?: BulkActionReport): AuditOutcome {
+    if (status === 'canceled') {
+      return 'canceled';
+    }
+    const succeeded = report ? countOutcomes(report).succeeded : 0;
+    if (!report || !succeeded) {
+      return 'failed';
+    }
+    return succeeded === report.results.length ? 'succeeded' : 'partial';
+  }
+
+  private patch(id: string, changes: Partial<BulkJob>) {
+    this.jobsState.update(jobs => jobs.map(job => job.id === id ? { ...job, ...changes } : job));
+  }
+}
@@ -0,0 +1,126 @@
+import { provideZonelessChangeDetection } from '@angular/core';
+import { TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+import { BulkActionReport } from '../interfaces/bulk-action.interface';
+import { EntityCollection } from '../interfaces/entity-collection.interface';
+import { Order } from '../interfaces/data-item.interface';
+import { ORDER_STATUS_MACHINE } from '../models/status-machines';
+import { ORDER_ENTITY } from '../entities/order.entity';
+import { order } from '../testing/fixtures';
+import { DataService } from './data.service';
+
+// Responses arrive as JSON, with dates as ISO strings
+function json<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value));
+}
+
+describe('DataService', () => {
+  let dataService: DataService;
+  let http: HttpTestingController;
+  let orders: EntityCollection<Order>;
+  const query = { filters: [], page: 0, pageSize: 10 };
+  const loaded = [order('o1', 'pending'), order('o2', 'pending'), order('o3', 'canceled')];
+
+  beforeEach(() => {
+    localStorage.clear();
+    TestBed.configureTestingModule({
+      providers: [provideZonelessChangeDetection(), provideHttpClient(), provideHttpClientTesting()]
+    });
+    dataService = TestBed.inject(DataService);
+    http = TestBed.inject(HttpTestingController);
+    orders = dataService.collection(ORDER_ENTITY);
+    orders.load(query);
+    flushPage(loaded);
+  });
+
+  afterEach(() => http.verify());
+
+  function flushPage(items: Order[]) {
+    http.expectOne(request => request.method === 'GET' && request.url === '/api/orders').flush(json({ items, total: items.length }));
+  }
+
+  function flushBulk(results: BulkActionReport['results']) {
+    http.expectOne('/api/orders/bulk/process').flush(json({ results }));
+  }
+
+  function statuses(): Record<string, string> {
+    return Object.fromEntries((orders.page()?.items ?? []).map(item => [item.id, item.status]));
+  }
+
+  function processOrders(ids: string[]): Promise<BulkActionReport> {
+    return orders.runBulk('process', { kind: 'ids', ids }, ORDER_STATUS_MACHINE, 'processOrders');
+  }
+
+  it('shows the target status of the rows the action applies to before the response', async () => {
+    const done = processOrders(['o1', 'o2', 'o3']);
+
+    expect(statuses()).toEqual({ o1: 'processed', o2: 'processed', o3: 'canceled' });
+    expect([...orders.pendingIds()]).toEqual(['o1', 'o2']);
+
+    flushBulk([
+      { id: 'o1', name: 'Order o1', outcome: 'succeeded' },
+      { id: 'o2', name: 'Order o2', outcome: 'succeeded' },
+      { id: 'o3', name: 'Order o3', outcome: 'skipped' }
+    ]);
+    await done;
+    expect(orders.pendingIds().size).toBe(0);
+    expect(statuses()).toEqual({ o1: 'processed', o2: 'processed', o3: 'canceled' });
+    flushPage(loaded.map(item => item.id === 'o3' ? item : { ...item, status: 'processed' as const }));
+  });
+
+  it('rolls back only the rows that failed', async () => {
+    const done = processOrders(['o1', 'o2']);
+    flushBulk([
+      { id: 'o1', name: 'Order o1', outcome: 'succeeded' },
+      { id: 'o2', name: 'Order o2', outcome: 'failed', reason: 'Payment declined' }
+    ]);
+    const report = await done;
+
+    expect(statuses()).toEqual({ o1: 'processed', o2: 'pending', o3: 'canceled' });
+    expect(orders.pendingIds().size).toBe(0);
+    expect(report.conflicts).toBeUndefined();
+    flushPage(loaded);
+  });
+
+  it('rolls back every row when the request fails', async () => {
+    const done = processOrders(['o1', 'o2']);
+    http.expectOne('/api/orders/bulk/process').flush('Unavailable', { status: 503, statusText: 'Service Unavailable' });
+
+    await expectAsync(done).toBeRejected();
+    expect(statuses()).toEqual({ o1: 'pending', o2: 'pending', o3: 'canceled' });
+    expect(orders.pendingIds().size).toBe(0);
+  });
+
+  it('reports a conflict when a refresh returns a changed version of a pending row', async () => {
+    const done = processOrders(['o1', 'o2']);
+    orders.load(query);
+    flushPage(loaded.map(item => item.id === 'o1' ? { ...item, amount: 250 } : item));
+
+    // The optimistic status still shows until the action settles
+    expect(statuses()['o1']).toBe('processed');
+
+    flushBulk([
+      { id: 'o1', name: 'Order o1', outcome: 'failed', reason: 'Changed meanwhile' },
+      { id: 'o2', name: 'Order o2', outcome: 'succeeded' }
+    ]);
+    const report = await done;
+    expect(report.conflicts).toEqual(['o1']);
+    expect(orders.page()?.items[0]).toEqual(jasmine.objectContaining({ id: 'o1', status: 'pending', amount: 250 }));
+    flushPage(loaded);
+  });
+
+  it('reports a conflict when a live change patches a pending row', async () => {
+    const done = processOrders(['o1', 'o2']);
+    dataService.applyChange({ collection: 'orders', item: { ...loaded[1], status: 'canceled' }, changedAt: new Date() });
+
+    flushBulk([
+      { id: 'o1', name: 'Order o1', outcome: 'succeeded' },
+      { id: 'o2', name: 'Order o2', outcome: 'failed', reason: 'Order was canceled' }
+    ]);
+    const report = await done;
+    expect(report.conflicts).toEqual(['o2']);
+    expect(statuses()).toEqual({ o1: 'processed', o2: 'canceled', o3: 'canceled' });
+    flushPage(loaded);
+  });
+});
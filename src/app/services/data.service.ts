@@ -1,206 +1,397 @@
-import { Injectable, signal, Signal, WritableSignal } from '@angular/core';
-import { DataItem, User, Order } from '../interfaces/data-item.interface';
+import { computed, inject, Injectable, InjectionToken, signal, Signal, WritableSignal } from '@angular/core';
+import { HttpClient, HttpParams } from '@angular/common/http';
+import { firstValueFrom, map, Observable } from 'rxjs';
+import { DataItem } from '../interfaces/data-item.interface';
+import { BulkActionReport, BulkActionRequest } from '../interfaces/bulk-action.interface';
+import { DataQuery, PagedResult, TableQuery } from '../interfaces/data-query.interface';
+import { RowGroupSummary, RowGrouping } from '../interfaces/row-grouping.interface';
+import { ItemChange } from '../interfaces/change-feed.interface';
+import { EntityDefinition } from '../interfaces/entity-definition.interface';
+import { BulkCallOptions, EntityCollection } from '../interfaces/entity-collection.interface';
+import { Permission } from '../interfaces/permission.interface';
+import { SelectionScope, scopeIncludes } from '../models/selection-scope.model';
+import { mergeReports, resultsWithOutcome } from '../models/bulk-action-report.model';
+import { formatFilter } from '../models/data-query.model';
+import { StatusMachine } from '../models/status-machine.model';
+import { PermissionService } from './permission.service';
+
+export const API_BASE_URL = new InjectionToken<string>('API_BASE_URL', {
+  providedIn: 'root',
+  factory: () => '/api'
+});
+
+const ISO_TIMESTAMP = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z$/;
+
+// JSON has no date type, so timestamps arrive as ISO strings
+export function reviveDates<T>(value: T): T {
+  if (typeof value === 'string' && ISO_TIMESTAMP.test(value)) {
+    return new Date(value) as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map(reviveDates) as T;
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, reviveDates(entry)])) as T;
+  }
+  return value;
+}
+
+interface PendingChange<T extends DataItem> {
+  // Bulk request that made the change, so overlapping requests keep their own markers
+  requestId: number;
+  status: T['status'];
+  // The item as it was when the change was applied
+  original: T;
+  // Set when a refresh returned a different version of the item meanwhile
+  conflict: boolean;
+}
+
+interface CollectionState<T extends DataItem> {
+  name: string;
+  // The page as last returned by the server
+  serverPage: WritableSignal<PagedResult<T> | null>;
+  // Optimistic status changes waiting for the server, keyed by item id
+  pending: WritableSignal<ReadonlyMap<string, PendingChange<T>>>;
+  // Ids of loaded rows another client changed recently
+  changed: WritableSignal<ReadonlySet<string>>;
+  lastQuery: TableQuery | null;
+  // Pages of `lastQuery` loaded one after another; more than one when scrolling virtually
+  loadedPages: number;
+  // Page `loadMore` is fetching, if any
+  loadingPage: number | null;
+  // Incremented per request so out-of-order responses can be dropped
+  requestId: number;
+}
+
+function createState<T extends DataItem>(name: string): CollectionState<T> {
+  return {
+    name,
+    serverPage: signal(null),
+    pending: signal(new Map()),
+    changed: signal(new Set()),
+    lastQuery: null,
+    loadedPages: 0,
+    loadingPage: null,
+    requestId: 0
+  };
+}
+
+// The server page with pending status changes applied on top
+function optimisticPage<T extends DataItem>(state: CollectionState<T>): Signal<PagedResult<T> | null> {
+  return computed(() => {
+    const page = state.serverPage();
+    const pending = state.pending();
+    if (!page || !pending.size) {
+      return page;
+    }
+    return {
+      ...page,
+      items: page.items.map(item => {
+        const change = pending.get(item.id);
+        return change ? { ...item, status: change.status } : item;
+      })
+    };
+  });
+}
+
+function sameItem<T extends DataItem>(a: T, b: T): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
 
 @Injectable({
   providedIn: 'root'
 })
 export class DataService {
-  private _users: WritableSignal<User[] | null> = signal(null);
-  private _orders: WritableSignal<Order[] | null> = signal(null);
-  private usersLoaded = false;
-  private ordersLoaded = false;
-
-  // Expose as readonly signals
-  readonly users: Signal<User[] | null> = this._users;
-  readonly orders: Signal<Order[] | null> = this._orders;
-
-  constructor() {
-    // Do not load data until first access
-  }
-
-  loadUsers() {
-    if (!this.usersLoaded) {
-      this.usersLoaded = true;
-      // Use setTimeout to mock API call
-      setTimeout(() => {
-        this._users.set([
-          {
-            id: 'u1',
-            name: 'John Doe',
-            email: 'john.doe@example.com',
-            status: 'active',
-            createdAt: new Date('2024-01-15'),
-            type: 'user',
-            department: 'Engineering',
-            lastLogin: new Date('2024-07-10')
-          },
-          {
-            id: 'u2',
-            name: 'Jane Smith',
-            email: 'jane.smith@example.com',
-            status: 'inactive',
-            createdAt: new Date('2024-02-20'),
-            type: 'user',
-            department: 'Marketing',
-            lastLogin: new Date('2024-06-15')
-          },
-          {
-            id: 'u3',
-            name: 'Bob Johnson',
-            email: 'bob.johnson@example.com',
-            status: 'pending',
-            createdAt: new Date('2024-03-10'),
-            type: 'user',
-            department: 'Sales',
-            lastLogin: new Date('2024-07-08')
-          },
-          {
-            id: 'u4',
-            name: 'Alice Wilson',
-            email: 'alice.wilson@example.com',
-            status: 'active',
-            createdAt: new Date('2024-04-05'),
-            type: 'user',
-            department: 'Engineering',
-            lastLogin: new Date('2024-07-11')
-          },
-          {
-            id: 'u5',
-            name: 'Charlie Brown',
-            email: 'charlie.brown@example.com',
-            status: 'active',
-            createdAt: new Date('2024-05-12'),
-            type: 'user',
-            department: 'Design',
-            lastLogin: new Date('2024-07-09')
-          }
-        ]);
-      }, 500);
-    }
-  }
-
-  loadOrders() {
-    if (!this.ordersLoaded) {
-      this.ordersLoaded = true;
-      // Use setTimeout to mock API call
-      setTimeout(() => {
-        this._orders.set([
-          {
-            id: 'o1',
-            name: 'Order #1001',
-            email: 'customer1@example.com',
-            status: 'active',
-            createdAt: new Date('2024-07-01'),
-            type: 'order',
-            amount: 299.99,
-            orderDate: new Date('2024-07-01')
-          },
-          {
-            id: 'o2',
-            name: 'Order #1002',
-            email: 'customer2@example.com',
-            status: 'pending',
-            createdAt: new Date('2024-07-03'),
-            type: 'order',
-            amount: 149.50,
-            orderDate: new Date('2024-07-03')
-          },
-          {
-            id: 'o3',
-            name: 'Order #1003',
-            email: 'customer3@example.com',
-            status: 'inactive',
-            createdAt: new Date('2024-07-05'),
-            type: 'order',
-            amount: 599.99,
-            orderDate: new Date('2024-07-05')
-          },
-          {
-            id: 'o4',
-            name: 'Order #1004',
-            email: 'customer4@example.com',
-            status: 'active',
-            createdAt: new Date('2024-07-08'),
-            type: 'order',
-            amount: 89.99,
-            orderDate: new Date('2024-07-08')
-          }
-        ]);
-      }, 500);
-    }
-  }
-
-  // User-specific actions
-  sendUserNotifications(users: User[]): void {
-    console.log('Sending notifications to users:', users.map(u => u.name));
-    const now = new Date();
-    const currentUsers = this._users() || [];
-    const updatedUsers = currentUsers.map(user =>
-      users.some(u => u.id === user.id)
-        ? { ...user, lastNotified: now } as User
-        : user
-    );
-    this._users.set(updatedUsers);
-  }
-
-  updateUserStatus(users: User[]): void {
-    console.log('Updating user status for:', users.map(u => u.name), 'to: updated');
-    const now = new Date();
-    const currentUsers = this._users() || [];
-    const updatedUsers = currentUsers.map(user =>
-      users.some(u => u.id === user.id)
-        ? { ...user, status: 'updated', statusChangedAt: now } as User
-        : user
-    );
-    this._users.set(updatedUsers);
-  }
-
-  resetUserPasswords(users: User[]): void {
-    console.log('Resetting passwords for users:', users.map(u => u.name));
-    const now = new Date();
-    const currentUsers = this._users() || [];
-    const updatedUsers = currentUsers.map(user =>
-      users.some(u => u.id === user.id)
-        ? { ...user, status: 'reset', passwordResetAt: now } as User
-        : user
-    );
-    this._users.set(updatedUsers);
-  }
-
-  // Order-specific actions
-  processOrders(orders: Order[]): void {
-    console.log('Processing orders:', orders.map(o => o.name));
-    const now = new Date();
-    const currentOrders = this._orders() || [];
-    const updatedOrders = currentOrders.map(order =>
-      orders.some(o => o.id === order.id)
-        ? { ...order, status: 'processed', processedAt: now } as Order
-        : order
-    );
-    this._orders.set(updatedOrders);
-  }
-
-  cancelOrders(orders: Order[]): void {
-    console.log('Cancelling orders:', orders.map(o => o.name));
-    const now = new Date();
-    const currentOrders = this._orders() || [];
-    const updatedOrders = currentOrders.map(order =>
-      orders.some(o => o.id === order.id)
-        ? { ...order, status: 'canceled', canceledAt: now } as Order
-        : order
-    );
-    this._orders.set(updatedOrders);
-  }
-
-  refundOrders(orders: Order[]): void {
-    console.log('Refunding orders:', orders.map(o => o.name));
-    const now = new Date();
-    const currentOrders = this._orders() || [];
-    const updatedOrders = currentOrders.map(order =>
-      orders.some(o => o.id === order.id)
-        ? { ...order, status: 'refunded', refundedAt: now } as Order
-        : order
-    );
-    this._orders.set(updatedOrders);
-  }
-}
\ No newline at end of file
+  private http = inject(HttpClient);
+  private apiUrl = inject(API_BASE_URL);
+  private permissions = inject(PermissionService);
+
+  // Show the target status of bulk actions right away instead of after the response
+  optimisticUpdates = true;
+  // How long rows changed by another client stay highlighted
+  changeHighlightMs = 3000;
+
+  // Created on first use by collection name; each holds the item type of its entity only,
+  // which `state` and `collection` narrow back to
+  private states = new Map<string, CollectionState<DataItem>>();
+  private collections = new Map<string, EntityCollection<DataItem>>();
+  private bulkRequestId = 0;
+
+  /** The entity's collection; the same instance is returned on every call. */
+  collection<T extends DataItem>(entity: EntityDefinition<T>): EntityCollection<T> {
+    let collection = this.collections.get(entity.key) as EntityCollection<T> | undefined;
+    if (!collection) {
+      const state = this.state<T>(entity.key);
+      collection = {
+        page: optimisticPage(state),
+        pendingIds: computed(() => new Set(state.pending().keys())),
+        changedIds: state.changed.asReadonly(),
+        load: query => this.load(state, query),
+        loadMore: () => this.loadMore(state),
+        runBulk: (action, scope, machine, actionType, options) =>
+          this.runBulk(entity.key, action, scope, machine, actionType, options)
+      };
+      this.collections.set(entity.key, collection);
+    }
+    return collection;
+  }
+
+  async undoBulk(tokens: string[]): Promise<BulkActionReport> {
+    const reports: BulkActionReport[] = [];
+    try {
+      for (const token of tokens) {
+        reports.push(await firstValueFrom(this.post<BulkActionReport>(`${this.apiUrl}/undo/${encodeURIComponent(token)}`, null)));
+      }
+    } finally {
+      this.states.forEach(state => this.refresh(state));
+    }
+    return mergeReports(reports);
+  }
+
+  /** Resolves a scope to the ids it covers, e.g. to split it into batches. */
+  resolveIds(collection: string, scope: SelectionScope): Promise<string[]> {
+    return firstValueFrom(this.post<string[]>(`${this.apiUrl}/${collection}/ids`, scope));
+  }
+
+  /** Fetches every item a scope covers, e.g. to export them. Unknown ids are left out. */
+  fetchItems<T extends DataItem>(collection: string, scope: SelectionScope): Promise<T[]> {
+    return firstValueFrom(this.post<T[]>(`${this.apiUrl}/${collection}/items`, scope));
+  }
+
+  /** Counts and totals every group of the rows matching the query, across pages. */
+  groupSummaries<T extends DataItem>(collection: string, query: DataQuery, grouping: RowGrouping<T>): Promise<RowGroupSummary[]> {
+    let params = new HttpParams().set('field', grouping.field);
+    if (grouping.bucket) {
+      params = params.set('bucket', grouping.bucket);
+    }
+    (grouping.aggregates ?? []).forEach(aggregate => {
+      params = params.append('sum', aggregate.field);
+    });
+    query.filters.forEach(filter => {
+      params = params.append('filter', formatFilter(filter));
+    });
+    return firstValueFrom(this.get<RowGroupSummary[]>(`${this.apiUrl}/${collection}/groups`, params));
+  }
+
+  /**
+   * Patches a change pushed by the server into the loaded page by id instead
+   * of reloading it. Changes to rows that are not loaded are ignored; the
+   * next load picks them up.
+   */
+  applyChange({ collection, item }: ItemChange) {
+    const state = this.states.get(collection);
+    if (state) {
+      this.patchItem(state, item);
+    }
+  }
+
+  private state<T extends DataItem>(name: string): CollectionState<T> {
+    let state = this.states.get(name) as CollectionState<T> | undefined;
+    if (!state) {
+      state = createState<T>(name);
+      this.states.set(name, state);
+    }
+    return state;
+  }
+
+  // More than one page is only loaded again by `refresh`, from the first page
+  private load<T extends DataItem>(state: CollectionState<T>, query: TableQuery, pages = 1) {
+    state.lastQuery = query;
+    state.loadingPage = null;
+    const requestId = ++state.requestId;
+    const rows = pages > 1 ? { ...query, page: 0, pageSize: query.pageSize * pages } : query;
+    this.get<PagedResult<T>>(`${this.apiUrl}/${state.name}`, this.toParams(rows)).subscribe({
+      next: page => {
+        if (requestId === state.requestId) {
+          this.markConflicts(state, page.items);
+          state.serverPage.set(page);
+          state.loadedPages = pages;
+        }
+      },
+      error: error => console.error(`Loading ${state.name} failed:`, error)
+    });
+  }
+
+  private loadMore<T extends DataItem>(state: CollectionState<T>) {
+    const query = state.lastQuery;
+    const loaded = state.serverPage();
+    const page = state.loadedPages;
+    if (query?.page !== 0 || !loaded || loaded.items.length >= loaded.total || state.loadingPage === page) {
+      return;
+    }
+    state.loadingPage = page;
+    // A new load or refresh in the meantime replaces the rows instead
+    const requestId = state.requestId;
+    this.get<PagedResult<T>>(`${this.apiUrl}/${state.name}`, this.toParams({ ...query, page })).subscribe({
+      next: result => {
+        const current = state.serverPage();
+        if (requestId !== state.requestId || !current) {
+          return;
+        }
+        this.markConflicts(state, result.items);
+        state.serverPage.set({ items: [...current.items, ...result.items], total: result.total });
+        state.loadedPages++;
+        state.loadingPage = null;
+      },
+      error: error => {
+        console.error(`Loading more ${state.name} failed:`, error);
+        state.loadingPage = null;
+      }
+    });
+  }
+
+  // Re-requests the last requested rows so they reflect a mutation
+  private refresh<T extends DataItem>(state: CollectionState<T>) {
+    if (state.lastQuery) {
+      this.load(state, state.lastQuery, Math.max(state.loadedPages, 1));
+    }
+  }
+
+  private patchItem<T extends DataItem>(state: CollectionState<T>, item: T) {
+    const page = state.serverPage();
+    if (!page?.items.some(current => current.id === item.id)) {
+      return;
+    }
+    // A change under a pending optimistic update is reported as a conflict when it settles
+    this.markConflicts(state, [item]);
+    state.serverPage.set({ ...page, items: page.items.map(current => current.id === item.id ? item : current) });
+    this.highlightChange(state, item.id);
+  }
+
+  private highlightChange<T extends DataItem>(state: CollectionState<T>, id: string) {
+    state.changed.update(current => new Set(current).add(id));
+    setTimeout(() => state.changed.update(current => {
+      const next = new Set(current);
+      next.delete(id);
+      return next;
+    }), this.changeHighlightMs);
+  }
+
+  /**
+   * Runs `POST /<collection>/bulk/<action>` after checking the
+   * `<collection>:<action>` permission it needs.
+   * Loaded rows the status machine allows show its target status until the
+   * response arrives, and the page is reloaded afterwards.
+   */
+  async runBulk<T extends DataItem>(
+    collection: string,
+    action: string,
+    scope: SelectionScope,
+    machine: StatusMachine<T>,
+    actionType: string,
+    options: BulkCallOptions<T> = {}
+  ): Promise<BulkActionReport> {
+    // Rejects here too so hiding the buttons isn't the only check. Derived from
+    // the endpoint, so a caller can't pass a permission other than the one it needs
+    this.permissions.require(`${collection}:${action}` as Permission);
+    const state = this.state<T>(collection);
+    const requestId = ++this.bulkRequestId;
+    const targetStatus = machine.targetStatus(actionType, options.targetStatus);
+    if (this.optimisticUpdates && targetStatus) {
+      this.applyOptimistic(state, requestId, scope, targetStatus, item => machine.canApply(actionType, item, targetStatus));
+    }
+
+    let report: BulkActionReport;
+    try {
+      const body: BulkActionRequest = { scope, params: options.params };
+      report = await firstValueFrom(this.post<BulkActionReport>(`${this.apiUrl}/${collection}/bulk/${action}`, body));
+    } catch (error) {
+      this.settleOptimistic(state, requestId, new Set());
+      throw error;
+    }
+    const conflicts = this.settleOptimistic(state, requestId,
+      new Set(resultsWithOutcome(report, 'succeeded').map(result => result.id)));
+    this.refresh(state);
+    return conflicts.length ? { ...report, conflicts } : report;
+  }
+
+  // Marks the loaded rows the action will change with their target status
+  private applyOptimistic<T extends DataItem>(
+    state: CollectionState<T>,
+    requestId: number,
+    scope: SelectionScope,
+    status: T['status'],
+    canApply: (item: T) => boolean
+  ) {
+    const affected = (state.serverPage()?.items ?? []).filter(item => scopeIncludes(scope, item) && canApply(item));
+    if (!affected.length) {
+      return;
+    }
+    state.pending.update(current => {
+      const next = new Map(current);
+      affected.forEach(item => next.set(item.id, { requestId, status, original: item, conflict: false }));
+      return next;
+    });
+  }
+
+  /**
+   * Drops the request's pending changes. Succeeded items keep their new
+   * status until the next refresh; the others fall back to the server's
+   * version, which is their exact prior state unless a refresh changed them
+   * meanwhile. Returns the ids of those changed items.
+   */
+  private settleOptimistic<T extends DataItem>(
+    state: CollectionState<T>,
+    requestId: number,
+    succeededIds: ReadonlySet<string>
+  ): string[] {
+    const settled = [...state.pending()].filter(([, change]) => change.requestId === requestId);
+    if (!settled.length) {
+      return [];
+    }
+
+    const confirmed = new Map(settled
+      .filter(([id]) => succeededIds.has(id))
+      .map(([id, change]) => [id, change.status]));
+    if (confirmed.size) {
+      state.serverPage.update(page => page && {
+        ...page,
+        items: page.items.map(item => confirmed.has(item.id) ? { ...item, status: confirmed.get(item.id)! } : item)
+      });
+    }
+    state.pending.update(current => {
+      const next = new Map(current);
+      settled.forEach(([id]) => next.delete(id));
+      return next;
+    });
+    return settled.filter(([, change]) => change.conflict).map(([id]) => id);
+  }
+
+  // Flags pending items whose server version changed since the optimistic update
+  private markConflicts<T extends DataItem>(state: CollectionState<T>, items: T[]) {
+    const pending = state.pending();
+    const changed = items.filter(item => {
+      const change = pending.get(item.id);
+      return change && !change.conflict && !sameItem(item, change.original);
+    });
+    if (!changed.length) {
+      return;
+    }
+    state.pending.update(current => {
+      const next = new Map(current);
+      changed.forEach(item => next.set(item.id, { ...next.get(item.id)!, conflict: true }));
+      return next;
+    });
+  }
+
+  private get<R>(url: string, params?: HttpParams): Observable<R> {
+    return this.http.get<R>(url, { params }).pipe(map(reviveDates));
+  }
+
+  private post<R>(url: string, body: unknown): Observable<R> {
+    return this.http.post<R>(url, body).pipe(map(reviveDates));
+  }
+
+  private toParams(query: TableQuery): HttpParams {
+    let params = new HttpParams()
+      .set('page', query.page)
+      .set('pageSize', query.pageSize);
+    if (query.sortField && query.sortDirection) {
+      params = params.set('sort', query.sortField).set('order', query.sortDirection);
+    }
+    query.filters.forEach(filter => {
+      params = params.append('filter', formatFilter(filter));
+    });
+    return params;
+  }
+}
@@ -0,0 +1,32 @@
+import { inject, Injectable, InjectionToken, Provider } from '@angular/core';
+import { DataItem } from '../interfaces/data-item.interface';
+import { EntityDefinition } from '../interfaces/entity-definition.interface';
+import { provideBulkActions } from './action-registry.service';
+import { DataService } from './data.service';
+
+export const ENTITIES = new InjectionToken<EntityDefinition<DataItem>[]>('ENTITIES');
+
+/**
+ * Registers an entity and its bulk actions. Entities are listed in the
+ * toolbar in the order they are provided; give each one a route with
+ * `entityRoute` (or a page of its own).
+ */
+export function provideEntity<T extends DataItem>(definition: EntityDefinition<T>): Provider[] {
+  const actions = definition.actions;
+  return [
+    { provide: ENTITIES, multi: true, useValue: definition },
+    ...(actions ? [provideBulkActions(definition.key, () => actions(inject(DataService).collection(definition)))] : [])
+  ];
+}
+
+@Injectable({
+  providedIn: 'root'
+})
+export class EntityRegistryService {
+  readonly entities: readonly EntityDefinition<DataItem>[] = inject(ENTITIES, { optional: true }) ?? [];
+
+  // Callers that know the entity's item type can name it, e.g. `get<Order>('orders')`
+  get<T extends DataItem = DataItem>(key: string): EntityDefinition<T> | undefined {
+    return this.entities.find(entity => entity.key === key) as EntityDefinition<T> | undefined;
+  }
+}
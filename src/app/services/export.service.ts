@@ -0,0 +1,65 @@
+import { DOCUMENT, inject, Injectable, LOCALE_ID } from '@angular/core';
+import { formatDate } from '@angular/common';
+import { DataItem } from '../interfaces/data-item.interface';
+import { ColumnDef } from '../interfaces/column-def.interface';
+import { SelectionScope } from '../models/selection-scope.model';
+import { formatColumnValue } from '../models/column-formatters';
+import { toCsv } from '../models/csv.model';
+import { DataService } from './data.service';
+
+export type ExportFormat = 'csv' | 'json';
+
+const MIME_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv;charset=utf-8',
+  json: 'application/json'
+};
+
+@Injectable({
+  providedIn: 'root'
+})
+export class ExportService {
+  private dataService = inject(DataService);
+  private document = inject(DOCUMENT);
+  private locale = inject(LOCALE_ID);
+
+  /**
+   * Downloads the rows a scope covers with the given columns, formatted the
+   * way the table shows them. Each row also carries its id so the file can
+   * be imported again. Resolves with the number of exported rows.
+   */
+  async exportRows<T extends DataItem>(
+    collection: string,
+    scope: SelectionScope,
+    columns: ColumnDef<T>[],
+    format: ExportFormat
+  ): Promise<number> {
+    const items = await this.dataService.fetchItems<T>(collection, scope);
+    const exported = columns.filter(column => column.key !== 'id');
+    const content = format === 'csv'
+      ? toCsv([
+        ['id', ...exported.map(column => column.header)],
+        ...items.map(item => [item.id, ...exported.map(column => formatColumnValue(column, item, this.locale))])
+      ])
+      : JSON.stringify(items.map(item => ({
+        id: item.id,
+        ...Object.fromEntries(exported.map(column => [column.key, formatColumnValue(column, item, this.locale)]))
+      })), null, 2);
+
+    const date = formatDate(new Date(), 'yyyy-MM-dd', this.locale);
+    this.download(`${collection}-${date}.${format}`, content, MIME_TYPES[format]);
+    return items.length;
+  }
+
+  private download(fileName: string, content: string, type: string) {
+    const url = URL.createObjectURL(new Blob([content], { type }));
+    const link = this.document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    // Firefox only follows links that are in the document
+    this.document.body.appendChild(link);
+    link.click();
+    link.remove();
+    // Revoking right away can cancel the download in Firefox and Safari
+    setTimeout(() => URL.revokeObjectURL(url));
+  }
+}
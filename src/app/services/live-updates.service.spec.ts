@@ -0,0 +1,112 @@
+import { provideZonelessChangeDetection } from '@angular/core';
+import { TestBed } from '@angular/core/testing';
+import { provideHttpClient, withInterceptors } from '@angular/common/http';
+import { provideNoopAnimations } from '@angular/platform-browser/animations';
+import { Order } from '../interfaces/data-item.interface';
+import { mockBackendInterceptor, provideMockBackend } from '../mock-backend/mock-backend.interceptor';
+import { MockChangeFeed, provideMockChangeFeed } from '../mock-backend/mock-change-feed';
+import { ORDER_ENTITY } from '../entities/order.entity';
+import { MultiSelectActionsComponent } from '../components/multi-select-actions/multi-select-actions.component';
+import { DataService } from './data.service';
+import { LiveUpdatesService } from './live-updates.service';
+
+// The mock backend answers after a zero-length timer
+function responses(): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, 10));
+}
+
+describe('LiveUpdatesService', () => {
+  let dataService: DataService;
+  let liveUpdates: LiveUpdatesService;
+  let feed: MockChangeFeed;
+
+  beforeEach(async () => {
+    TestBed.configureTestingModule({
+      providers: [
+        provideZonelessChangeDetection(),
+        provideNoopAnimations(),
+        provideHttpClient(withInterceptors([mockBackendInterceptor])),
+        provideMockBackend({ latencyMs: 0, bulkLatencyMs: 0 }),
+        provideMockChangeFeed()
+      ]
+    });
+    dataService = TestBed.inject(DataService);
+    liveUpdates = TestBed.inject(LiveUpdatesService);
+    feed = TestBed.inject(MockChangeFeed);
+    dataService.changeHighlightMs = 20;
+    dataService.collection(ORDER_ENTITY).load({ filters: [], page: 0, pageSize: 10 });
+    await responses();
+    liveUpdates.connect();
+  });
+
+  afterEach(() => liveUpdates.disconnect());
+
+  function loadedOrders(): Order[] {
+    return dataService.collection(ORDER_ENTITY).page()?.items ?? [];
+  }
+
+  it('patches a change into the loaded rows by id and highlights it for a while', async () => {
+    const [first] = loadedOrders();
+    feed.simulate<Order>('orders', first.id, { status: 'canceled' });
+
+    expect(loadedOrders()[0]).toEqual(jasmine.objectContaining({ id: first.id, status: 'canceled' }));
+    expect(dataService.collection(ORDER_ENTITY).changedIds().has(first.id)).toBeTrue();
+    expect(liveUpdates.lastChanged().has(first.id)).toBeTrue();
+
+    await new Promise(resolve => setTimeout(resolve, dataService.changeHighlightMs + 10));
+    expect(dataService.collection(ORDER_ENTITY).changedIds().size).toBe(0);
+  });
+
+  it('ignores changes to rows that are not loaded', () => {
+    const before = loadedOrders();
+    feed.simulate<Order>('orders', 'o2999', { status: 'canceled' });
+
+    expect(loadedOrders()).toBe(before);
+    expect(dataService.collection(ORDER_ENTITY).changedIds().size).toBe(0);
+  });
+
+  it('stops patching once disconnected', () => {
+    liveUpdates.disconnect();
+    const [first] = loadedOrders();
+    feed.simulate<Order>('orders', first.id, { status: 'canceled' });
+
+    expect(liveUpdates.live()).toBeFalse();
+    expect(loadedOrders()[0].status).toBe(first.status);
+  });
+
+  describe('with the changed item selected', () => {
+    function createActions(selected: Order[]) {
+      const fixture = TestBed.createComponent<MultiSelectActionsComponent<Order>>(MultiSelectActionsComponent);
+      fixture.componentRef.setInput('actionContext', ORDER_ENTITY.key);
+      fixture.componentRef.setInput('selectedItems', selected);
+      fixture.componentRef.setInput('scope', { kind: 'ids', ids: selected.map(item => item.id) });
+      fixture.detectChanges();
+      return fixture;
+    }
+
+    it('warns when another client changed its status after it was selected', () => {
+      const [first] = loadedOrders();
+      const fixture = createActions([first]);
+
+      feed.simulate<Order>('orders', first.id, { status: first.status === 'canceled' ? 'pending' : 'canceled' });
+      fixture.componentRef.setInput('selectedItems', [loadedOrders()[0]]);
+      fixture.detectChanges();
+
+      expect(fixture.componentInstance.changedItems.length).toBe(1);
+      expect(fixture.componentInstance.changedMessage()).toContain(`${first.name} changed from ${first.status}`);
+
+      fixture.componentInstance.acknowledgeChanges();
+      expect(fixture.componentInstance.changedItems.length).toBe(0);
+    });
+
+    it('does not warn about changes that did not come from the feed', () => {
+      const [first] = loadedOrders();
+      const fixture = createActions([first]);
+
+      fixture.componentRef.setInput('selectedItems', [{ ...first, status: 'canceled' }]);
+      fixture.detectChanges();
+
+      expect(fixture.componentInstance.changedItems.length).toBe(0);
+    });
+  });
+});
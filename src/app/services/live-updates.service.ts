@@ -0,0 +1,78 @@
+import { inject, Injectable, InjectionToken, signal } from '@angular/core';
+import { Observable, Subscription } from 'rxjs';
+import { ChangeFeed, ItemChange } from '../interfaces/change-feed.interface';
+import { API_BASE_URL, DataService, reviveDates } from './data.service';
+
+/**
+ * Listens to `GET <API_BASE_URL>/changes` as server-sent events, with one
+ * JSON encoded `ItemChange` per message. The browser reconnects by itself
+ * after network errors; the feed only errors once the server refuses it.
+ */
+export class ServerSentEventsChangeFeed implements ChangeFeed {
+  constructor(private url: string) { }
+
+  connect(): Observable<ItemChange> {
+    return new Observable<ItemChange>(subscriber => {
+      const source = new EventSource(this.url);
+      source.onmessage = event => {
+        try {
+          subscriber.next(reviveDates(JSON.parse(event.data) as ItemChange));
+        } catch (error) {
+          console.warn('Ignoring malformed change event:', error);
+        }
+      };
+      source.onerror = () => {
+        if (source.readyState === EventSource.CLOSED) {
+          subscriber.error(new Error(`Change feed at ${this.url} is not available`));
+        }
+      };
+      return () => source.close();
+    });
+  }
+}
+
+export const CHANGE_FEED = new InjectionToken<ChangeFeed>('CHANGE_FEED', {
+  providedIn: 'root',
+  factory: () => new ServerSentEventsChangeFeed(`${inject(API_BASE_URL)}/changes`)
+});
+
+@Injectable({
+  providedIn: 'root'
+})
+export class LiveUpdatesService {
+  private feed = inject(CHANGE_FEED);
+  private dataService = inject(DataService);
+  private subscription: Subscription | null = null;
+  private liveState = signal(false);
+  private receivedState = signal<ReadonlyMap<string, Date>>(new Map());
+
+  // Whether changes from the feed are being applied
+  readonly live = this.liveState.asReadonly();
+  // When the latest change to each item arrived, by item id
+  readonly lastChanged = this.receivedState.asReadonly();
+
+  /** Patches every change from the feed into the loaded data until `disconnect` is called. */
+  connect() {
+    if (this.subscription) {
+      return;
+    }
+    this.liveState.set(true);
+    this.subscription = this.feed.connect().subscribe({
+      next: change => {
+        // Arrival time rather than `changedAt`, so server clock skew doesn't matter
+        this.receivedState.update(current => new Map(current).set(change.item.id, new Date()));
+        this.dataService.applyChange(change);
+      },
+      error: error => {
+        console.error('Change feed failed:', error);
+        this.disconnect();
+      }
+    });
+  }
+
+  disconnect() {
+    this.subscription?.unsubscribe();
+    this.subscription = null;
+    this.liveState.set(false);
+  }
+}
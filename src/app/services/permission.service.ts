@@ -0,0 +1,45 @@
+import { computed, Injectable, signal } from '@angular/core';
+import { Permission, Role } from '../interfaces/permission.interface';
+import { ROLE_LABELS, ROLE_PERMISSIONS, ROLES } from '../models/role-permissions';
+import { persistJson, restoreJson } from '../models/local-storage';
+
+const STORAGE_KEY = 'current-user-roles';
+
+export class PermissionDeniedError extends Error {
+  constructor(readonly permission: Permission) {
+    super(`Missing permission "${permission}"`);
+    this.name = 'PermissionDeniedError';
+  }
+}
+
+@Injectable({
+  providedIn: 'root'
+})
+export class PermissionService {
+  // There is no sign-in yet, so the roles come from the dev switcher and default to admin
+  private rolesState = signal<Role[]>(this.restore());
+
+  readonly roles = this.rolesState.asReadonly();
+  readonly permissions = computed(() => new Set(this.roles().flatMap(role => ROLE_PERMISSIONS[role])));
+  readonly roleLabel = computed(() => this.roles().map(role => ROLE_LABELS[role]).join(', ') || 'No role');
+
+  has(permission: Permission): boolean {
+    return this.permissions().has(permission);
+  }
+
+  /** Throws a `PermissionDeniedError` unless the current user has the permission. */
+  require(permission: Permission) {
+    if (!this.has(permission)) {
+      throw new PermissionDeniedError(permission);
+    }
+  }
+
+  setRoles(roles: Role[]) {
+    this.rolesState.set(roles);
+    persistJson(STORAGE_KEY, roles, 'the current roles');
+  }
+
+  private restore(): Role[] {
+    return restoreJson<Role[]>(STORAGE_KEY, 'the current roles', ['admin'], roles => roles.filter(role => ROLES.includes(role)));
+  }
+}
@@ -0,0 +1,66 @@
+import { inject, Injectable, signal } from '@angular/core';
+import { DataItem } from '../interfaces/data-item.interface';
+import { DataFilter } from '../interfaces/data-query.interface';
+import { SavedSelection } from '../interfaces/saved-selection.interface';
+import { SelectionScope } from '../models/selection-scope.model';
+import { savedSelectionScope } from '../models/saved-selection.model';
+import { DataService } from './data.service';
+import { persistJson, restoreJson } from '../models/local-storage';
+
+const STORAGE_KEY = 'saved-selections';
+
+@Injectable({
+  providedIn: 'root'
+})
+export class SavedSelectionService {
+  private dataService = inject(DataService);
+  private selectionsState = signal<SavedSelection[]>(this.restore());
+  private sequence = 0;
+
+  // In the order they were saved
+  readonly selections = this.selectionsState.asReadonly();
+
+  forEntity(entityType: string): SavedSelection[] {
+    return this.selections().filter(saved => saved.entityType === entityType);
+  }
+
+  /** Saves the rows a scope covers right now; "all matching" scopes are resolved to ids. */
+  async saveStatic(entityType: string, name: string, scope: SelectionScope): Promise<SavedSelection> {
+    const ids = scope.kind === 'ids' ? scope.ids : await this.dataService.resolveIds(entityType, scope);
+    return this.add({ kind: 'static', ids, ...this.base(entityType, name) });
+  }
+
+  saveRule(entityType: string, name: string, filters: DataFilter[]): SavedSelection {
+    return this.add({ kind: 'rule', filters, ...this.base(entityType, name) });
+  }
+
+  remove(id: string) {
+    this.selectionsState.update(selections => selections.filter(saved => saved.id !== id));
+    this.persist();
+  }
+
+  /** Loads the rows a saved selection covers now. Static ids that no longer exist are left out. */
+  evaluate<T extends DataItem>(saved: SavedSelection): Promise<T[]> {
+    return this.dataService.fetchItems<T>(saved.entityType, savedSelectionScope(saved));
+  }
+
+  private base(entityType: string, name: string) {
+    const createdAt = new Date();
+    return { id: `selection-${createdAt.getTime()}-${++this.sequence}`, name, entityType, createdAt };
+  }
+
+  private add(saved: SavedSelection): SavedSelection {
+    this.selectionsState.update(selections => [...selections, saved]);
+    this.persist();
+    return saved;
+  }
+
+  private persist() {
+    persistJson(STORAGE_KEY, this.selectionsState(), 'saved selections');
+  }
+
+  private restore(): SavedSelection[] {
+    return restoreJson<SavedSelection[]>(STORAGE_KEY, 'saved selections', [],
+      selections => selections.map(saved => ({ ...saved, createdAt: new Date(saved.createdAt) })));
+  }
+}
@@ -0,0 +1,29 @@
+import { Order, User } from '../interfaces/data-item.interface';
+
+// Minimal items for specs; only the fields a spec cares about are parameters
+
+export function user(id: string, status: User['status'] = 'active'): User {
+  return {
+    id,
+    name: `User ${id}`,
+    email: `${id}@example.com`,
+    status,
+    createdAt: new Date('2024-01-01'),
+    type: 'user',
+    department: 'Engineering',
+    lastLogin: new Date('2024-07-01')
+  };
+}
+
+export function order(id: string, status: Order['status'] = 'pending', amount = 100, orderDate = '2024-03-01'): Order {
+  return {
+    id,
+    name: `Order ${id}`,
+    email: `${id}@example.com`,
+    status,
+    createdAt: new Date('2024-01-01'),
+    type: 'order',
+    amount,
+    orderDate: new Date(orderDate)
+  };
+}